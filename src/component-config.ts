@@ -0,0 +1,136 @@
+/**
+ * Which component directories the generator includes and how they're categorized:
+ * categories and an ignore list from component-config.json, plus heuristics for
+ * components the config doesn't list. The server reads the same file for extra
+ * component aliases.
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { componentAliases, getComponentCategory, normalizeComponentName } from './utils.js';
+import type { ComponentManifest } from './types.js';
+
+export interface ComponentConfig {
+  /** Category → component directory names */
+  categories: Record<string, string[]>;
+  /** Directory names to skip; "*" matches any characters, e.g. ".*" or "internal-*" */
+  ignore: string[];
+  /** Extra names → the component names they may refer to, merged over the built-in aliases */
+  aliases: Record<string, string[]>;
+}
+
+export const componentConfigFileName = 'component-config.json';
+
+const componentConfigSchema = z.object({
+  $schema: z.string().optional(),
+  categories: z.record(z.string().min(1), z.array(z.string().min(1))),
+  ignore: z.array(z.string().min(1)).default([]),
+  aliases: z.record(z.string().min(1), z.array(z.string().min(1)).min(1)).default({}),
+});
+
+/**
+ * Read and validate a component config file. Throws with every problem listed.
+ */
+export function readComponentConfig(path: string): ComponentConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid component config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = componentConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message.replace(/^Invalid input: /, '')}`);
+    throw new Error(`Invalid component config ${path}:\n${problems.join('\n')}`);
+  }
+  return { categories: result.data.categories, ignore: result.data.ignore, aliases: result.data.aliases };
+}
+
+/**
+ * The built-in aliases with the config's merged over them. Config names are normalized like
+ * requested names ("Text Field" → "text-field"), and replace a built-in alias of the same name.
+ */
+export function mergeComponentAliases(config: Pick<ComponentConfig, 'aliases'>): Record<string, string[]> {
+  const merged = { ...componentAliases };
+  for (const [alias, targets] of Object.entries(config.aliases)) {
+    merged[normalizeComponentName(alias)] = targets;
+  }
+  return merged;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+/**
+ * Whether a directory under the components directory should be left out of the manifest.
+ */
+export function isIgnoredComponent(name: string, config: ComponentConfig): boolean {
+  return config.ignore.some(pattern => patternToRegExp(pattern).test(name));
+}
+
+// ── Classification ────────────────────────────────────────────────────
+
+export interface ComponentClassification {
+  category: string;
+  /** Where the category came from: the config, a heuristic, or nothing ("other") */
+  source: 'config' | 'heuristic' | 'none';
+  /** Why the category was chosen, for the generator's report */
+  reason: string;
+}
+
+type ClassifiableComponent = Pick<ComponentManifest, 'name' | 'props' | 'emits' | 'slots'>;
+
+interface Heuristic {
+  category: string;
+  reason: string;
+  matches: (component: ClassifiableComponent, stores: string[]) => boolean;
+}
+
+// Tried in order for components the config doesn't list; the first match wins
+const heuristics: Heuristic[] = [
+  {
+    category: 'form',
+    reason: 'has a modelValue prop and an update:modelValue emit',
+    matches: c => c.props.some(p => p.name === 'modelValue') && c.emits.some(e => e.name === 'update:modelValue'),
+  },
+  {
+    category: 'feedback',
+    reason: 'uses a store',
+    matches: (_, stores) => stores.length > 0,
+  },
+  {
+    category: 'filter',
+    reason: 'named like a filter',
+    matches: c => /(^|-)filters?($|-)/.test(c.name),
+  },
+  {
+    category: 'navigation',
+    reason: 'named like navigation',
+    matches: c => /(^|-)(nav|navbar|menu|breadcrumbs?|pagination|stepper|link)($|-)/.test(c.name),
+  },
+  {
+    category: 'layout',
+    reason: 'has header or footer slots',
+    matches: c => c.slots.some(s => s.name === 'header' || s.name === 'footer'),
+  },
+  {
+    category: 'data',
+    reason: 'takes a collection of items to display',
+    matches: c => c.props.some(p => /^(data|items|rows|columns|headers)$|[a-z](Data|Items|Rows|Logs)$/.test(p.name)),
+  },
+];
+
+/**
+ * The component's category: from the config if listed there, else from the first heuristic
+ * that matches, else "other". `stores` names the stores the component's files use.
+ */
+export function classifyComponent(component: ClassifiableComponent, config: ComponentConfig, stores: string[] = []): ComponentClassification {
+  if (Object.values(config.categories).some(names => names.includes(component.name))) {
+    return { category: getComponentCategory(component.name, config.categories), source: 'config', reason: 'listed in the component config' };
+  }
+
+  const heuristic = heuristics.find(h => h.matches(component, stores));
+  if (heuristic) return { category: heuristic.category, source: 'heuristic', reason: heuristic.reason };
+  return { category: 'other', source: 'none', reason: 'no heuristic matched' };
+}
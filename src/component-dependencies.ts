@@ -0,0 +1,85 @@
+/**
+ * The component dependency graph for get_component_dependencies: which components each
+ * component (with its sub-components) renders, and which components render it.
+ */
+
+import type { ComponentManifest } from './types.js';
+
+export interface DependencyEdge {
+  component: string;
+  /** The tags and import specifiers it's rendered through, e.g. ["SprCheckbox"] */
+  via: string[];
+  /** The dependent's parts that render it: the component itself and/or sub-components */
+  from: string[];
+}
+
+export interface DependencyGraph {
+  /** Component → the components it renders */
+  uses: Map<string, DependencyEdge[]>;
+  /** Component → the components that render it */
+  usedBy: Map<string, DependencyEdge[]>;
+  /** Component → <Spr*> tags it renders that aren't in the manifest */
+  unresolved: Map<string, string[]>;
+  /** False for manifests generated before dependencies were recorded */
+  recorded: boolean;
+}
+
+function addEdge(edges: Map<string, DependencyEdge>, component: string, via: string, from: string): void {
+  const edge = edges.get(component) ?? { component, via: [], from: [] };
+  if (!edge.via.includes(via)) edge.via.push(via);
+  if (!edge.from.includes(from)) edge.from.push(from);
+  edges.set(component, edge);
+}
+
+const byName = (a: DependencyEdge, b: DependencyEdge) => (a.component < b.component ? -1 : a.component > b.component ? 1 : 0);
+
+/**
+ * Build the graph from the manifest. Tags of sub-components (e.g. <SprSelectMultiple>)
+ * resolve to their parent, and a component rendering its own sub-components isn't a dependency.
+ */
+export function buildDependencyGraph(components: ComponentManifest[]): DependencyGraph {
+  const owners = new Map<string, string>();
+  for (const comp of components) owners.set(`Spr${comp.pascalName}`, comp.name);
+  for (const comp of components) {
+    for (const sub of comp.subComponents) {
+      const tag = `Spr${sub.pascalName}`;
+      if (!owners.has(tag)) owners.set(tag, comp.name);
+    }
+  }
+  const names = new Set(components.map(c => c.name));
+
+  const uses = new Map<string, DependencyEdge[]>();
+  const usedBy = new Map<string, DependencyEdge[]>();
+  const unresolved = new Map<string, string[]>();
+  const reverse = new Map<string, Map<string, DependencyEdge>>();
+
+  for (const comp of components) {
+    const edges = new Map<string, DependencyEdge>();
+    const unknownTags = new Set<string>();
+    const parts = [{ name: comp.name, dependencies: comp.dependencies }, ...comp.subComponents];
+
+    for (const part of parts) {
+      if (!part.dependencies) continue;
+      for (const tag of part.dependencies.tags) {
+        const owner = owners.get(tag);
+        if (!owner) unknownTags.add(tag);
+        else if (owner !== comp.name) addEdge(edges, owner, tag, part.name);
+      }
+      for (const { specifier, component } of part.dependencies.imports) {
+        if (component && component !== comp.name && names.has(component)) addEdge(edges, component, specifier, part.name);
+      }
+    }
+
+    uses.set(comp.name, [...edges.values()].sort(byName));
+    if (unknownTags.size > 0) unresolved.set(comp.name, [...unknownTags]);
+    for (const edge of edges.values()) {
+      const dependents = reverse.get(edge.component) ?? new Map<string, DependencyEdge>();
+      dependents.set(comp.name, { ...edge, component: comp.name });
+      reverse.set(edge.component, dependents);
+    }
+  }
+
+  for (const [component, dependents] of reverse) usedBy.set(component, [...dependents.values()].sort(byName));
+
+  return { uses, usedBy, unresolved, recorded: components.some(c => c.dependencies !== undefined) };
+}
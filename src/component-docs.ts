@@ -0,0 +1,164 @@
+/**
+ * Human-written component documentation for the manifest: markdown and VitePress pages
+ * in the design system's docs directory and markdown files next to components, split
+ * into a summary and sections ("When to use", "Accessibility", ...).
+ */
+
+import { readFileSync, readdirSync, existsSync, statSync } from 'fs';
+import { join, relative, basename, extname, dirname, sep } from 'path';
+import type { ComponentDocs, ComponentDocSection } from './types.js';
+
+export interface DocPage {
+  /** The page's H1, if it starts with one */
+  title?: string;
+  /** Front matter `description`, else the first paragraph of prose before the first section */
+  summary?: string;
+  sections: Array<{ heading: string; content: string }>;
+}
+
+interface Heading {
+  line: number;
+  level: number;
+  text: string;
+}
+
+/**
+ * Headings outside fenced code blocks, with VitePress `{#anchor}` suffixes removed.
+ */
+function findHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let fence: string | undefined;
+  lines.forEach((line, i) => {
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+    if (marker) {
+      if (!fence) fence = marker;
+      else if (line.trim().startsWith(fence)) fence = undefined;
+      return;
+    }
+    if (fence) return;
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) headings.push({ line: i, level: heading[1].length, text: heading[2].replace(/\s*\{#[^}]*\}$/, '').trim() });
+  });
+  return headings;
+}
+
+// Paragraphs that aren't prose: code, HTML and Vue demos, containers, tables, images, imports
+const nonProse = /^(```|~~~|<|:::|\||!\[|import\s)/;
+
+function firstParagraph(text: string): string | undefined {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .find(paragraph => paragraph && !nonProse.test(paragraph))
+    ?.replace(/\s*\n\s*/g, ' ');
+}
+
+function tidy(text: string): string {
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Split a markdown or VitePress page into its title, summary and sections. Sections start
+ * at the highest heading level below the title; deeper headings stay in their content.
+ * Front matter, `<script>` and `<style>` blocks and HTML comments are dropped.
+ */
+export function parseDocPage(markdown: string): DocPage {
+  let text = markdown.replace(/\r\n?/g, '\n');
+  let description: string | undefined;
+  const frontMatter = text.match(/^---\n([\s\S]*?)\n---(\n|$)/);
+  if (frontMatter) {
+    description = frontMatter[1].match(/^description:\s*(.+)$/m)?.[1].trim().replace(/^(['"])(.*)\1$/, '$2');
+    text = text.slice(frontMatter[0].length);
+  }
+  text = text.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/g, '').replace(/<!--[\s\S]*?-->/g, '');
+
+  const lines = text.split('\n');
+  const headings = findHeadings(lines);
+  const titleHeading = headings[0]?.level === 1 ? headings.shift() : undefined;
+  const introStart = titleHeading ? titleHeading.line + 1 : 0;
+  const sectionLevel = Math.min(...headings.map(h => h.level));
+  const sectionHeadings = headings.filter(h => h.level === sectionLevel);
+
+  const intro = tidy(lines.slice(introStart, sectionHeadings[0]?.line ?? lines.length).join('\n'));
+  const summary = description || firstParagraph(intro);
+
+  const sections: DocPage['sections'] = [];
+  // Anything in the introduction beyond the summary is kept as an overview
+  if (intro && intro.replace(/\s+/g, ' ') !== summary) sections.push({ heading: 'Overview', content: intro });
+  sectionHeadings.forEach((heading, i) => {
+    const content = tidy(lines.slice(heading.line + 1, sectionHeadings[i + 1]?.line ?? lines.length).join('\n'));
+    if (content) sections.push({ heading: heading.text, content });
+  });
+
+  return { ...(titleHeading && { title: titleHeading.text }), ...(summary && { summary }), sections };
+}
+
+// ── Discovery ─────────────────────────────────────────────────────────
+
+/**
+ * The component a docs page is about, from its file name: "button.md", "Button.md",
+ * "spr-button.md", "button/index.md" and "button/README.md" are all "button".
+ */
+export function docPageComponentName(path: string): string {
+  const name = basename(path, extname(path));
+  const subject = /^(index|readme)$/i.test(name) ? basename(dirname(path)) : name;
+  return subject
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/^spr-/, '');
+}
+
+function markdownFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir)) {
+    // Skips .vitepress (theme and config) and other hidden directories
+    if (entry.startsWith('.') || entry === 'node_modules') continue;
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) files.push(...markdownFiles(path));
+    else if (extname(entry) === '.md') files.push(path);
+  }
+  return files;
+}
+
+/**
+ * Docs pages for each of `componentNames`: pages in `docsPath` (searched recursively) named
+ * after the component, then markdown files directly inside its component directory.
+ */
+export function findComponentDocFiles(componentsPath: string, docsPath: string, componentNames: string[]): Map<string, string[]> {
+  const found = new Map<string, string[]>(componentNames.map(name => [name, []]));
+
+  if (existsSync(docsPath) && statSync(docsPath).isDirectory()) {
+    for (const file of markdownFiles(docsPath).sort()) found.get(docPageComponentName(file))?.push(file);
+  }
+  for (const name of componentNames) {
+    const componentDir = join(componentsPath, name);
+    if (!existsSync(componentDir)) continue;
+    const files = found.get(name)!;
+    const pages = readdirSync(componentDir).filter(f => extname(f) === '.md').sort().map(f => join(componentDir, f));
+    // A docs directory that contains the components directory has found these already
+    files.push(...pages.filter(page => !files.includes(page)));
+  }
+  return found;
+}
+
+/**
+ * Read and merge a component's docs pages. Paths are recorded relative to `root`; the summary
+ * comes from the first page that has one. Undefined when there are no pages or they're empty.
+ */
+export function readComponentDocs(files: string[], root: string): ComponentDocs | undefined {
+  let summary: string | undefined;
+  const sections: ComponentDocSection[] = [];
+  const used: string[] = [];
+
+  for (const path of files) {
+    const page = parseDocPage(readFileSync(path, 'utf-8'));
+    if (!page.summary && page.sections.length === 0) continue;
+    const file = relative(root, path).split(sep).join('/');
+    used.push(file);
+    summary ??= page.summary;
+    sections.push(...page.sections.map(section => ({ ...section, file })));
+  }
+
+  if (used.length === 0) return undefined;
+  return { files: used, ...(summary && { summary }), sections };
+}
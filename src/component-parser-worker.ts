@@ -0,0 +1,13 @@
+/**
+ * Worker thread for parallel manifest generation: parses each component directory name
+ * it's sent and posts back the result.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { parseComponent } from './component-parser.js';
+
+const { componentsPath } = workerData as { componentsPath: string };
+
+parentPort!.on('message', (componentName: string) => {
+  parentPort!.postMessage(parseComponent(componentsPath, componentName));
+});
@@ -0,0 +1,214 @@
+/**
+ * Per-component parsing for the manifest generator, in-process or spread across a pool of
+ * worker threads (component-parser-worker.ts), each with its own ts-morph project.
+ */
+
+import { readdirSync, existsSync } from 'fs';
+import { join, extname, relative, sep } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { createRequire } from 'module';
+import { Worker } from 'worker_threads';
+import { parseComponentProps, getComponentNameFromPath } from './parsers/props-parser.js';
+import { parseSlots } from './parsers/slot-parser.js';
+import { parseComposable } from './parsers/composable-parser.js';
+import { parseTypes } from './parsers/type-parser.js';
+import { parseTemplateDependencies, type TemplateDependencies } from './parsers/dependency-parser.js';
+import { getSubComponents, resolveSubComponentPath } from './utils.js';
+import type {
+  PropDefinition,
+  EmitDefinition,
+  SlotDefinition,
+  TypeDefinition,
+  ComposableInfo,
+  SubComponentManifest,
+  ComponentManifest,
+  ManifestDiagnostic,
+} from './types.js';
+
+export interface ParsedComponent {
+  /** Category is a placeholder; the generator classifies components after parsing */
+  component: ComponentManifest;
+  diagnostics: ManifestDiagnostic[];
+}
+
+const noDependencies: TemplateDependencies = { tags: [], imports: [] };
+
+/**
+ * Parse one component directory: props, emits and types from the .ts file, slots and
+ * rendered components from the .vue file, use-*.ts composables and sub-components.
+ * Parser failures are returned as diagnostics rather than thrown.
+ */
+export function parseComponent(componentsPath: string, componentName: string): ParsedComponent {
+  const componentDir = join(componentsPath, componentName);
+  const diagnostics: ManifestDiagnostic[] = [];
+  const tsFile = join(componentDir, `${componentName}.ts`);
+  const vueFile = join(componentDir, `${componentName}.vue`);
+
+  const fail = (parser: ManifestDiagnostic['parser'], file: string, err: unknown, subComponent?: string) => {
+    const message = err instanceof Error ? err.message : String(err);
+    const path = relative(componentsPath, file).split(sep).join('/');
+    diagnostics.push({ component: componentName, ...(subComponent && { subComponent }), file: path, parser, message });
+  };
+
+  let props: PropDefinition[] = [];
+  let emits: EmitDefinition[] = [];
+  let types: TypeDefinition[] = [];
+
+  if (existsSync(tsFile)) {
+    try {
+      const parsed = parseComponentProps(tsFile);
+      props = parsed.props;
+      emits = parsed.emits;
+    } catch (err) {
+      fail('props', tsFile, err);
+    }
+    try {
+      types = parseTypes(tsFile);
+    } catch (err) {
+      fail('types', tsFile, err);
+    }
+  }
+
+  let slots: SlotDefinition[] = [];
+  let dependencies = noDependencies;
+  if (existsSync(vueFile)) {
+    try {
+      slots = parseSlots(vueFile);
+    } catch (err) {
+      fail('slots', vueFile, err);
+    }
+    try {
+      dependencies = parseTemplateDependencies(vueFile, componentsPath);
+    } catch (err) {
+      fail('dependencies', vueFile, err);
+    }
+  }
+
+  // Composables
+  const composables: ComposableInfo[] = [];
+  const dirEntries = readdirSync(componentDir);
+  for (const entry of dirEntries) {
+    if (entry.startsWith('use-') && entry.endsWith('.ts')) {
+      try {
+        composables.push(parseComposable(join(componentDir, entry)));
+      } catch (err) {
+        fail('composable', join(componentDir, entry), err);
+      }
+    }
+  }
+
+  // Sub-components
+  const subs = getSubComponents(componentDir, componentName);
+  const subComponentDetails: SubComponentManifest[] = subs.map(sub => {
+    let subProps: PropDefinition[] = [];
+    let subEmits: EmitDefinition[] = [];
+    let subSlots: SlotDefinition[] = [];
+    let subDependencies = noDependencies;
+
+    if (sub.hasProps) {
+      const subTsPath = resolveSubComponentPath(componentDir, sub.name, 'ts');
+      if (subTsPath) {
+        try {
+          const parsed = parseComponentProps(subTsPath);
+          subProps = parsed.props;
+          subEmits = parsed.emits;
+        } catch (err) {
+          fail('props', subTsPath, err, sub.name);
+        }
+      }
+    }
+
+    // Check for sub-component Vue file for slots
+    const subVuePath = resolveSubComponentPath(componentDir, sub.name, 'vue');
+
+    if (subVuePath) {
+      try {
+        subSlots = parseSlots(subVuePath);
+      } catch (err) {
+        fail('slots', subVuePath, err, sub.name);
+      }
+      try {
+        subDependencies = parseTemplateDependencies(subVuePath, componentsPath);
+      } catch (err) {
+        fail('dependencies', subVuePath, err, sub.name);
+      }
+    }
+
+    return {
+      name: sub.name,
+      pascalName: sub.pascalName,
+      props: subProps,
+      emits: subEmits,
+      slots: subSlots,
+      dependencies: subDependencies,
+    };
+  });
+
+  const component: ComponentManifest = {
+    name: componentName,
+    pascalName: getComponentNameFromPath(componentDir),
+    // Set by the generator, which knows the config and the stores
+    category: 'other',
+    props,
+    emits,
+    slots,
+    types,
+    composables,
+    subComponents: subComponentDetails,
+    dependencies,
+  };
+  return { component, diagnostics };
+}
+
+/**
+ * Start a parser worker: component-parser-worker.js from dist, or the .ts file under tsx,
+ * whose loader isn't registered in worker threads, so the worker registers it first.
+ */
+function startWorker(componentsPath: string): Worker {
+  const ext = extname(fileURLToPath(import.meta.url));
+  const workerUrl = new URL(`./component-parser-worker${ext}`, import.meta.url);
+  if (ext !== '.ts') return new Worker(workerUrl, { workerData: { componentsPath } });
+
+  const tsxApi = JSON.stringify(pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href);
+  const bootstrap = `import(${tsxApi}).then(api => { api.register(); return import(${JSON.stringify(workerUrl.href)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData: { componentsPath } });
+}
+
+/**
+ * Parse `componentNames` with up to `concurrency` worker threads. Results come back in the
+ * order of `componentNames` regardless of which worker finishes first. With a concurrency
+ * of 1 everything is parsed in this thread.
+ */
+export async function parseComponents(componentsPath: string, componentNames: string[], concurrency: number): Promise<ParsedComponent[]> {
+  const poolSize = Math.min(concurrency, componentNames.length);
+  if (poolSize <= 1) return componentNames.map(name => parseComponent(componentsPath, name));
+
+  const results: ParsedComponent[] = new Array(componentNames.length);
+  const workers = Array.from({ length: poolSize }, () => startWorker(componentsPath));
+  let next = 0;
+
+  try {
+    await Promise.all(
+      workers.map(
+        worker =>
+          new Promise<void>((resolve, reject) => {
+            const dispatch = () => {
+              if (next >= componentNames.length) return resolve();
+              const index = next++;
+              worker.once('message', (result: ParsedComponent) => {
+                results[index] = result;
+                dispatch();
+              });
+              worker.postMessage(componentNames[index]);
+            };
+            worker.once('error', reject);
+            worker.once('exit', code => reject(new Error(`Parser worker exited with code ${code}`)));
+            dispatch();
+          }),
+      ),
+    );
+  } finally {
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+  return results;
+}
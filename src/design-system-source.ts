@@ -0,0 +1,198 @@
+/**
+ * Where design-system-next is read from: an installed package (the default), another
+ * package name such as an internal fork, or an explicit checkout, with optional
+ * overrides for the components, assets and stores directories.
+ */
+
+import { readFileSync, existsSync, statSync } from 'fs';
+import { join, dirname, resolve, relative, isAbsolute, sep } from 'path';
+import { createRequire } from 'module';
+import { readFlag } from './utils.js';
+import type { ManifestSource } from './types.js';
+
+export interface DesignSystemSourceOptions {
+  packageName: string;
+  /** Checkout or unpacked package to read instead of resolving `packageName` */
+  root?: string;
+  /** Relative to the root unless absolute */
+  componentsDir: string;
+  assetsDir: string;
+  storesDir: string;
+  /** Docs pages (markdown or VitePress), searched for pages named after components */
+  docsDir: string;
+}
+
+export interface DesignSystemSource {
+  /** Name from the root's package.json, else the configured package name */
+  packageName: string;
+  version: string;
+  root: string;
+  componentsPath: string;
+  assetsPath: string;
+  storesPath: string;
+  docsPath: string;
+  /** What the manifest records about this source */
+  description: ManifestSource;
+}
+
+export const DEFAULT_PACKAGE_NAME = 'design-system-next';
+export const DEFAULT_COMPONENTS_DIR = 'src/components';
+export const DEFAULT_ASSETS_DIR = 'src/assets';
+export const DEFAULT_STORES_DIR = 'src/stores';
+export const DEFAULT_DOCS_DIR = 'docs';
+
+/**
+ * Resolve source options from CLI flags, falling back to environment variables.
+ *
+ *   --package <name>          MCP_DESIGN_SYSTEM_PACKAGE  (default design-system-next)
+ *   --root <dir>              MCP_DESIGN_SYSTEM_ROOT     (default: resolve the package)
+ *   --components-dir <dir>    MCP_COMPONENTS_DIR         (default src/components)
+ *   --assets-dir <dir>        MCP_ASSETS_DIR             (default src/assets)
+ *   --stores-dir <dir>        MCP_STORES_DIR             (default src/stores)
+ *   --docs-dir <dir>          MCP_DOCS_DIR               (default docs)
+ */
+export function parseDesignSystemSourceOptions(argv: string[], env: NodeJS.ProcessEnv): DesignSystemSourceOptions {
+  const option = (flag: string, envName: string) => {
+    const value = readFlag(argv, flag) ?? env[envName];
+    if (value !== undefined && value.trim() === '') throw new Error(`${flag} (${envName}) must not be empty.`);
+    return value;
+  };
+
+  return {
+    packageName: option('--package', 'MCP_DESIGN_SYSTEM_PACKAGE') ?? DEFAULT_PACKAGE_NAME,
+    root: option('--root', 'MCP_DESIGN_SYSTEM_ROOT'),
+    componentsDir: option('--components-dir', 'MCP_COMPONENTS_DIR') ?? DEFAULT_COMPONENTS_DIR,
+    assetsDir: option('--assets-dir', 'MCP_ASSETS_DIR') ?? DEFAULT_ASSETS_DIR,
+    storesDir: option('--stores-dir', 'MCP_STORES_DIR') ?? DEFAULT_STORES_DIR,
+    docsDir: option('--docs-dir', 'MCP_DOCS_DIR') ?? DEFAULT_DOCS_DIR,
+  };
+}
+
+/**
+ * The package's root directory: the nearest directory above its entry point whose
+ * package.json has the package's name.
+ */
+export function resolvePackageRoot(packageName: string, resolveFrom: string): string {
+  const require = createRequire(resolveFrom);
+  let dir = dirname(require.resolve(packageName));
+  for (;;) {
+    const packageJsonPath = join(dir, 'package.json');
+    if (existsSync(packageJsonPath)) {
+      try {
+        if (JSON.parse(readFileSync(packageJsonPath, 'utf-8')).name === packageName) return dir;
+      } catch {
+        // Unreadable package.json — keep walking up
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) throw new Error(`No package.json named "${packageName}" above ${require.resolve(packageName)}`);
+    dir = parent;
+  }
+}
+
+/**
+ * The commit (and branch, unless detached) a checkout is on, read from .git without
+ * running git. Worktrees, whose .git is a file pointing at the real git directory, work too.
+ */
+export function readGitInfo(root: string): ManifestSource['git'] | undefined {
+  try {
+    let gitDir = join(root, '.git');
+    if (!existsSync(gitDir)) return undefined;
+    if (statSync(gitDir).isFile()) {
+      const pointer = readFileSync(gitDir, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+      if (!pointer) return undefined;
+      gitDir = resolve(root, pointer[1].trim());
+    }
+
+    const head = readFileSync(join(gitDir, 'HEAD'), 'utf-8').trim();
+    const ref = head.match(/^ref:\s*(.+)$/)?.[1];
+    if (!ref) return /^[0-9a-f]{40}$/.test(head) ? { commit: head } : undefined;
+
+    const branch = ref.replace(/^refs\/heads\//, '');
+    // Linked worktrees keep shared refs in the main git directory
+    const commonDir = existsSync(join(gitDir, 'commondir'))
+      ? resolve(gitDir, readFileSync(join(gitDir, 'commondir'), 'utf-8').trim())
+      : gitDir;
+    for (const dir of [gitDir, commonDir]) {
+      const refPath = join(dir, ref);
+      if (existsSync(refPath)) return { commit: readFileSync(refPath, 'utf-8').trim(), branch };
+    }
+    const packedRefs = join(commonDir, 'packed-refs');
+    if (existsSync(packedRefs)) {
+      for (const line of readFileSync(packedRefs, 'utf-8').split('\n')) {
+        const [commit, name] = line.trim().split(' ');
+        if (name === ref) return { commit, branch };
+      }
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
+
+/**
+ * Locate the design system described by `options`. Package names are resolved from
+ * `resolveFrom` (a file path or URL, usually `import.meta.url`). Throws if the package
+ * can't be resolved or the root doesn't exist.
+ */
+export function resolveDesignSystemSource(options: DesignSystemSourceOptions, resolveFrom: string): DesignSystemSource {
+  let root: string;
+  if (options.root) {
+    root = resolve(options.root);
+    if (!existsSync(root) || !statSync(root).isDirectory()) throw new Error(`Design system root ${root} is not a directory.`);
+  } else {
+    try {
+      root = resolvePackageRoot(options.packageName, resolveFrom);
+    } catch {
+      throw new Error(`Could not find the ${options.packageName} package. Install it, or point --root (MCP_DESIGN_SYSTEM_ROOT) at a checkout.`);
+    }
+  }
+
+  let pkg: { name?: string; version?: string } = {};
+  try {
+    pkg = JSON.parse(readFileSync(join(root, 'package.json'), 'utf-8'));
+  } catch {
+    // A checkout without a readable package.json still has components
+  }
+
+  const [componentsPath, assetsPath, storesPath, docsPath] = [options.componentsDir, options.assetsDir, options.storesDir, options.docsDir].map(dir => resolve(root, dir));
+  // Directories inside the root are recorded relative to it; others as given
+  const recorded = (dir: string, path: string) => {
+    const rel = relative(root, path);
+    return rel && !rel.startsWith('..') && !isAbsolute(rel) ? toPosix(rel) : dir;
+  };
+  const git = readGitInfo(root);
+  const packageName = pkg.name ?? options.packageName;
+
+  return {
+    packageName,
+    version: pkg.version ?? 'unknown',
+    root,
+    componentsPath,
+    assetsPath,
+    storesPath,
+    docsPath,
+    description: {
+      packageName,
+      ...(options.root && { root: options.root }),
+      componentsDir: recorded(options.componentsDir, componentsPath),
+      assetsDir: recorded(options.assetsDir, assetsPath),
+      storesDir: recorded(options.storesDir, storesPath),
+      docsDir: recorded(options.docsDir, docsPath),
+      ...(git && { git }),
+    },
+  };
+}
+
+/**
+ * One line naming a resolved source, for generator and server logs.
+ */
+export function describeDesignSystemSource(source: DesignSystemSource): string {
+  const { git } = source.description;
+  const revision = git ? ` @ ${git.branch ? `${git.branch} ` : ''}${git.commit.slice(0, 12)}` : '';
+  return `${source.packageName} v${source.version} from ${source.root}${revision}`;
+}
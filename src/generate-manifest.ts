@@ -9,153 +9,237 @@
  *
  * Run: npx tsx src/generate-manifest.ts
  * Or:  npm run generate-manifest
+ *
+ * Options:
+ *   --out <path>   Write to <path> instead of component-manifest.json. If <path> is a
+ *                  directory (or ends with "/"), writes <path>/<designSystemVersion>.json,
+ *                  e.g. "--out manifests/" to add a version for multi-version serving.
+ *   --force        Re-parse every component. By default, components whose .ts/.vue files
+ *                  (and tokens whose scripts) are unchanged since the manifest at the
+ *                  output path was generated are reused from it.
+ *   --concurrency <n>
+ *                  Parse changed components with up to <n> worker threads (default: one per
+ *                  CPU, at most 4). 1 parses everything in the main thread.
+ *   --check        Don't write anything: build the manifest in memory, compare it with the
+ *                  one at the output path (ignoring generatedAt and hashes), report the
+ *                  differences per component and exit 1 if they differ.
+ *   --embed-sources[=inline|sidecar]
+ *                  Embed component source files so get_component_source works without
+ *                  design-system-next installed: inside the manifest (inline, the default)
+ *                  or in a gzipped <manifest>.sources.json.gz next to it (sidecar).
+ *   --config <path>
+ *                  Component categories and ignore list (default: component-config.json).
+ *                  Components it doesn't list are classified by heuristics.
+ *   --package <name>, --root <dir>, --components-dir <dir>, --assets-dir <dir>, --stores-dir <dir>,
+ *   --docs-dir <dir>
+ *                  Read a differently named package (e.g. a fork) or a local checkout
+ *                  instead of the installed design-system-next, and override its layout.
+ *                  Also settable through environment variables; see design-system-source.ts.
+ *                  Docs pages named after a component anywhere under the docs directory
+ *                  (button.md, button/index.md) and markdown files in its directory
+ *                  become its `docs`. <Spr*> usages in the docs, in demo, example and
+ *                  playground directories and in test specs become its `examples`.
+ *                  The <Spr*> tags and internal component imports each template renders
+ *                  become its `dependencies`.
+ *
+ * Subcommands:
+ *   diff <from.json> <to.json> [--json]
+ *                  Compare two manifests and report API changes, breaking first.
+ *                  Doesn't need design-system-next installed.
+ *   types [manifest.json] [--out <file.d.ts>]
+ *                  Write a .d.ts augmenting vue's GlobalComponents from a manifest
+ *                  (default: component-manifest.json) so Volar type-checks <Spr*> usage.
+ *                  Prints to stdout without --out.
+ *   schema [--out <file.json>]
+ *                  Write the manifest JSON Schema (manifest.schema.json).
  */
 
-import { readdirSync, readFileSync, existsSync, statSync, writeFileSync } from 'fs';
-import { join, dirname, extname } from 'path';
-import { createRequire } from 'module';
+import { readdirSync, readFileSync, existsSync, statSync, writeFileSync, mkdirSync } from 'fs';
+import { join, dirname, extname, resolve, basename } from 'path';
+import * as os from 'os';
+import { gzipSync, gunzipSync } from 'zlib';
 import { fileURLToPath } from 'url';
 
-import { parseComponentProps, getComponentNameFromPath } from './parsers/props-parser.js';
-import { parseSlots } from './parsers/slot-parser.js';
-import { parseComposable } from './parsers/composable-parser.js';
-import { parseTypes } from './parsers/type-parser.js';
 import { getAllTokens } from './parsers/token-parser.js';
-import type { PropDefinition, EmitDefinition, SlotDefinition, TypeDefinition, ComposableInfo, DesignTokens, SubComponentManifest, ComponentManifest, StoreManifest, Manifest } from './types.js';
-import { getSubComponents, getComponentCategory, resolveSubComponentPath } from './utils.js';
+import type { ComponentManifest, StoreManifest, Manifest, ManifestHashes, ManifestDiagnostic } from './types.js';
+import { readFlag } from './utils.js';
+import { parseComponents } from './component-parser.js';
+import { findComponentDocFiles, readComponentDocs } from './component-docs.js';
+import { findExampleFiles, collectUsageExamples } from './usage-examples.js';
+import { buildDependencyGraph } from './component-dependencies.js';
+import { diffManifests, formatManifestDiff } from './manifest-diff.js';
+import { generateTypeDeclarations } from './type-declarations.js';
+import { detectManifestDrift, hasDrift, formatManifestDrift, jsonEqual } from './manifest-drift.js';
+import { collectSourceFiles } from './source-files.js';
+import { hashFiles, hashComponentDir, hashDirectory, reusableComponent } from './manifest-cache.js';
+import { readManifestFile, formatManifestErrors } from './manifests.js';
+import { manifestFormatVersion, manifestJsonSchema, normalizeLineEndings } from './manifest-schema.js';
+import { readComponentConfig, isIgnoredComponent, classifyComponent, componentConfigFileName, type ComponentConfig, type ComponentClassification } from './component-config.js';
+import { parseDesignSystemSourceOptions, resolveDesignSystemSource, describeDesignSystemSource, type DesignSystemSource } from './design-system-source.js';
+
+// ── diff subcommand ───────────────────────────────────────────────────
+
+function runDiff(args: string[]): number {
+  const [fromPath, toPath] = args.filter(arg => !arg.startsWith('--'));
+  if (!fromPath || !toPath) {
+    console.error('Usage: generate-manifest diff <from.json> <to.json> [--json]');
+    return 2;
+  }
 
-// ── Resolve design-system-next paths ──────────────────────────────────
+  const from = readManifestFile(fromPath);
+  const to = readManifestFile(toPath);
+  if (!from.ok || !to.ok) {
+    if (!from.ok) console.error(formatManifestErrors(fromPath, from.errors));
+    if (!to.ok) console.error(formatManifestErrors(toPath, to.errors));
+    return 2;
+  }
 
-const require = createRequire(import.meta.url);
-let designSystemPath: string;
+  const diff = diffManifests(from.manifest, to.manifest);
+  console.log(args.includes('--json') ? JSON.stringify(diff, null, 2) : formatManifestDiff(diff));
+  return 0;
+}
 
-try {
-  const designSystemMain = require.resolve('design-system-next');
-  designSystemPath = join(dirname(designSystemMain), '..');
-} catch {
-  console.error('Could not find design-system-next package. Make sure it is installed.');
-  process.exit(1);
+// ── types subcommand ──────────────────────────────────────────────────
+
+function runTypes(args: string[]): number {
+  const outIndex = args.indexOf('--out');
+  const out = outIndex !== -1 ? args[outIndex + 1] : undefined;
+  if (outIndex !== -1 && !out) {
+    console.error('Usage: generate-manifest types [manifest.json] [--out <file.d.ts>]');
+    return 2;
+  }
+  const manifestArg = args.find((arg, i) => !arg.startsWith('--') && (outIndex === -1 || i !== outIndex + 1));
+  if (manifestArg && !existsSync(manifestArg)) {
+    console.error(`Manifest ${manifestArg} does not exist.`);
+    return 2;
+  }
+  const manifestPath = manifestArg ?? join(dirname(fileURLToPath(import.meta.url)), '..', 'component-manifest.json');
+
+  const parsed = readManifestFile(manifestPath);
+  if (!parsed.ok) {
+    console.error(formatManifestErrors(manifestPath, parsed.errors));
+    return 2;
+  }
+
+  const { manifest } = parsed;
+  const declarations = generateTypeDeclarations(manifest.designSystemVersion, manifest.components);
+  if (!out) {
+    process.stdout.write(declarations.content);
+    return 0;
+  }
+
+  const outPath = resolve(out);
+  mkdirSync(dirname(outPath), { recursive: true });
+  writeFileSync(outPath, declarations.content);
+  console.log(`Type declarations generated: ${declarations.components.length} components → ${outPath}`);
+  return 0;
 }
 
-const componentsPath = join(designSystemPath, 'src', 'components');
-const assetsPath = join(designSystemPath, 'src', 'assets');
-const storesPath = join(designSystemPath, 'src', 'stores');
+// ── schema subcommand ─────────────────────────────────────────────────
 
-// ── Build the manifest ────────────────────────────────────────────────
+function runSchema(args: string[]): number {
+  const outIndex = args.indexOf('--out');
+  const content = `${JSON.stringify(manifestJsonSchema(), null, 2)}\n`;
+  if (outIndex === -1) {
+    process.stdout.write(content);
+    return 0;
+  }
+  const out = args[outIndex + 1];
+  if (!out) {
+    console.error('Usage: generate-manifest schema [--out <file.json>]');
+    return 2;
+  }
+  writeFileSync(resolve(out), content);
+  console.log(`Manifest schema (format ${manifestFormatVersion}) → ${resolve(out)}`);
+  return 0;
+}
 
-function buildManifest(): Manifest {
-  // Read design-system-next version
-  const dsPkgPath = join(designSystemPath, 'package.json');
-  const dsPkg = JSON.parse(readFileSync(dsPkgPath, 'utf-8'));
-  const dsVersion: string = dsPkg.version ?? 'unknown';
+if (process.argv[2] === 'diff') {
+  process.exit(runDiff(process.argv.slice(3)));
+}
 
-  // Components
-  const componentDirs = readdirSync(componentsPath).filter(name => {
-    const fullPath = join(componentsPath, name);
-    return statSync(fullPath).isDirectory();
-  });
+if (process.argv[2] === 'types') {
+  process.exit(runTypes(process.argv.slice(3)));
+}
 
-  const components: ComponentManifest[] = [];
+if (process.argv[2] === 'schema') {
+  process.exit(runSchema(process.argv.slice(3)));
+}
 
-  for (const componentName of componentDirs) {
-    const componentDir = join(componentsPath, componentName);
-    const tsFile = join(componentDir, `${componentName}.ts`);
-    const vueFile = join(componentDir, `${componentName}.vue`);
-
-    let props: PropDefinition[] = [];
-    let emits: EmitDefinition[] = [];
-    let types: TypeDefinition[] = [];
-
-    if (existsSync(tsFile)) {
-      try {
-        const parsed = parseComponentProps(tsFile);
-        props = parsed.props;
-        emits = parsed.emits;
-        types = parseTypes(tsFile);
-      } catch (err) {
-        console.warn(`  Warning: failed to parse props for ${componentName}:`, (err as Error).message);
-      }
-    }
+// ── Resolve design-system-next paths ──────────────────────────────────
 
-    let slots: SlotDefinition[] = [];
-    if (existsSync(vueFile)) {
-      try {
-        slots = parseSlots(vueFile);
-      } catch (err) {
-        console.error(`  Warning: failed to parse slots for ${componentName}:`, (err as Error).message);
-      }
-    }
+let designSystem: DesignSystemSource;
 
-    // Composables
-    const composables: ComposableInfo[] = [];
-    const dirEntries = readdirSync(componentDir);
-    for (const entry of dirEntries) {
-      if (entry.startsWith('use-') && entry.endsWith('.ts')) {
-        try {
-          composables.push(parseComposable(join(componentDir, entry)));
-        } catch (err) {
-          console.error(`  Warning: failed to parse composable ${entry} for ${componentName}:`, (err as Error).message);
-        }
-      }
-    }
+try {
+  designSystem = resolveDesignSystemSource(parseDesignSystemSourceOptions(process.argv.slice(2), process.env), import.meta.url);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
 
-    // Sub-components
-    const subs = getSubComponents(componentDir, componentName);
-    const subComponentDetails: SubComponentManifest[] = subs.map(sub => {
-      let subProps: PropDefinition[] = [];
-      let subEmits: EmitDefinition[] = [];
-      let subSlots: SlotDefinition[] = [];
-
-      if (sub.hasProps) {
-        const subTsPath = resolveSubComponentPath(componentDir, sub.name, 'ts');
-        if (subTsPath) {
-          try {
-            const parsed = parseComponentProps(subTsPath);
-            subProps = parsed.props;
-            subEmits = parsed.emits;
-          } catch (err) {
-            console.error(`  Warning: failed to parse props for sub-component ${sub.name} in ${componentName}:`, (err as Error).message);
-          }
-        }
-      }
+const { componentsPath, assetsPath, storesPath, docsPath } = designSystem;
 
-      // Check for sub-component Vue file for slots
-      const subVuePath = resolveSubComponentPath(componentDir, sub.name, 'vue');
+if (!existsSync(componentsPath)) {
+  console.error(`Components directory ${componentsPath} does not exist. Set it with --components-dir (MCP_COMPONENTS_DIR).`);
+  process.exit(1);
+}
 
-      if (subVuePath) {
-        try {
-          subSlots = parseSlots(subVuePath);
-        } catch (err) {
-          console.error(`  Warning: failed to parse slots for sub-component ${sub.name} in ${componentName}:`, (err as Error).message);
-        }
-      }
+console.log(`Reading ${describeDesignSystemSource(designSystem)}`);
 
-      return {
-        name: sub.name,
-        pascalName: sub.pascalName,
-        props: subProps,
-        emits: subEmits,
-        slots: subSlots,
-      };
-    });
-
-    components.push({
-      name: componentName,
-      pascalName: getComponentNameFromPath(componentDir),
-      category: getComponentCategory(componentName),
-      props,
-      emits,
-      slots,
-      types,
-      composables,
-      subComponents: subComponentDetails,
-    });
-  }
+// Categories and the ignore list; --config (MCP_COMPONENT_CONFIG) replaces the bundled file
+const componentConfigPath = resolve(
+  readFlag(process.argv.slice(2), '--config') ?? process.env.MCP_COMPONENT_CONFIG ?? join(dirname(fileURLToPath(import.meta.url)), '..', componentConfigFileName),
+);
+let componentConfig: ComponentConfig;
 
-  // Tokens
-  const tokens = getAllTokens(assetsPath);
+try {
+  componentConfig = readComponentConfig(componentConfigPath);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+// ── Build the manifest ────────────────────────────────────────────────
+
+/**
+ * Hash of the code that turns files into manifest entries: this generator, the component
+ * parser, utils and the parsers. Works both from src/ (tsx) and dist/.
+ */
+function hashGenerator(): string {
+  const modulePath = fileURLToPath(import.meta.url);
+  const moduleDir = dirname(modulePath);
+  const ext = extname(modulePath);
+  const parsers = readdirSync(join(moduleDir, 'parsers')).filter(f => extname(f) === ext).map(f => `parsers/${f}`);
+  return hashFiles(moduleDir, [basename(modulePath), `component-parser${ext}`, `utils${ext}`, ...parsers]);
+}
+
+interface BuildResult {
+  manifest: Manifest;
+  /** Components parsed this run rather than reused from the previous manifest */
+  reparsed: string[];
+  tokensReparsed: boolean;
+  /** Directories left out by the config's ignore list */
+  ignored: string[];
+  /** Components the config doesn't list */
+  classified: ClassifiedComponent[];
+  /** Files searched for usage examples */
+  exampleFiles: number;
+}
+
+interface ClassifiedComponent extends ComponentClassification {
+  name: string;
+}
+
+/**
+ * Build the manifest, reusing entries from `previous` whose input files are unchanged
+ * unless `force` is set. Changed components are parsed by up to `concurrency` workers.
+ */
+async function buildManifest(previous: Manifest | undefined, force: boolean, concurrency: number): Promise<BuildResult> {
+  const generatorHash = hashGenerator();
+  const hashes: ManifestHashes = { generator: generatorHash, tokens: '', components: {} };
+  const reparsed: string[] = [];
 
-  // Stores
+  // Stores first: components that use one are classified as feedback
   const stores: StoreManifest[] = [];
   if (existsSync(storesPath)) {
     const storeFiles = readdirSync(storesPath).filter(f => extname(f) === '.ts');
@@ -168,6 +252,66 @@ function buildManifest(): Manifest {
     }
   }
 
+  // Components
+  const directories = readdirSync(componentsPath).filter(name => {
+    const fullPath = join(componentsPath, name);
+    return statSync(fullPath).isDirectory();
+  });
+  const ignored = directories.filter(name => isIgnoredComponent(name, componentConfig));
+  const componentDirs = directories.filter(name => !ignored.includes(name));
+
+  const components: ComponentManifest[] = [];
+  const classified: ClassifiedComponent[] = [];
+  const diagnostics: ManifestDiagnostic[] = [];
+
+  const cached = new Map<string, ComponentManifest>();
+  for (const componentName of componentDirs) {
+    const hash = hashComponentDir(join(componentsPath, componentName));
+    hashes.components[componentName] = hash;
+    const entry = force ? undefined : reusableComponent(previous, generatorHash, componentName, hash);
+    if (entry) cached.set(componentName, entry);
+  }
+
+  const toParse = componentDirs.filter(name => !cached.has(name));
+  const parsed = await parseComponents(componentsPath, toParse, concurrency);
+  const parsedByName = new Map(toParse.map((name, i) => [name, parsed[i]]));
+  const docFiles = findComponentDocFiles(componentsPath, docsPath, componentDirs);
+
+  // Merge in directory order, so the output doesn't depend on which worker finished first
+  for (const componentName of componentDirs) {
+    const componentDir = join(componentsPath, componentName);
+    let entry = cached.get(componentName);
+    if (entry) {
+      // The files are unchanged, so are the parser failures
+      diagnostics.push(...(previous?.diagnostics ?? []).filter(d => d.component === componentName));
+    } else {
+      const result = parsedByName.get(componentName)!;
+      entry = result.component;
+      for (const d of result.diagnostics) console.warn(`  Warning: failed to parse ${d.parser} in ${d.file}:`, d.message);
+      diagnostics.push(...result.diagnostics);
+      reparsed.push(componentName);
+    }
+
+    // Categories come from the config and heuristics, and docs and examples from files outside
+    // the component hash, so they're always recomputed
+    const sources = Object.values(collectSourceFiles(componentDir));
+    const usedStores = stores.filter(store => sources.some(source => source.includes(store.name))).map(store => store.name);
+    const classification = classifyComponent(entry, componentConfig, usedStores);
+    if (classification.source !== 'config') classified.push({ name: componentName, ...classification });
+    const docs = readComponentDocs(docFiles.get(componentName)!, designSystem.root);
+    components.push({ ...entry, category: classification.category, docs, examples: undefined });
+  }
+
+  // Usages are collected once every component is known, since sub-component tags count for their parent
+  const exampleFiles = findExampleFiles(designSystem.root, docsPath);
+  const examples = collectUsageExamples(designSystem.root, exampleFiles, components);
+  for (const comp of components) comp.examples = examples.get(comp.name);
+
+  // Tokens
+  hashes.tokens = hashDirectory(join(assetsPath, 'scripts'), f => extname(f) === '.ts');
+  const tokensCached = !force && previous?.hashes?.generator === generatorHash && previous.hashes.tokens === hashes.tokens;
+  const tokens = tokensCached ? previous!.tokens : getAllTokens(assetsPath);
+
   // Assets
   const imagesDir = join(assetsPath, 'images');
   const images: { name: string; path: string; type: string }[] = [];
@@ -192,21 +336,166 @@ function buildManifest(): Manifest {
   }
 
   return {
-    version: '1.0.0',
-    generatedAt: new Date().toISOString(),
-    designSystemVersion: dsVersion,
-    components,
-    tokens,
-    stores,
-    assets: { images, emptyStates },
+    manifest: {
+      version: manifestFormatVersion,
+      generatedAt: new Date().toISOString(),
+      designSystemVersion: designSystem.version,
+      source: designSystem.description,
+      // Sources checked out with CRLF line endings would otherwise leak "\r\n" into types and defaults
+      components: normalizeLineEndings(components),
+      tokens: normalizeLineEndings(tokens),
+      stores: normalizeLineEndings(stores),
+      assets: { images, emptyStates },
+      diagnostics,
+      hashes,
+    },
+    reparsed,
+    tokensReparsed: !tokensCached,
+    ignored,
+    classified,
+    exampleFiles: exampleFiles.length,
   };
 }
 
 // ── Main ──────────────────────────────────────────────────────────────
 
-const manifest = buildManifest();
-// Write to project root so it can be committed and doesn't require build to exist
-const srcOutputPath = join(dirname(fileURLToPath(import.meta.url)), '..', 'component-manifest.json');
+function resolveOutputPath(version: string): string {
+  const outIndex = process.argv.indexOf('--out');
+  const out = outIndex !== -1 ? process.argv[outIndex + 1] : undefined;
+
+  // Default: project root so it can be committed and doesn't require build to exist
+  if (!out) return join(dirname(fileURLToPath(import.meta.url)), '..', 'component-manifest.json');
+
+  const outPath = resolve(out);
+  const isDirectory = out.endsWith('/') || (existsSync(outPath) && statSync(outPath).isDirectory());
+  return isDirectory ? join(outPath, `${version}.json`) : outPath;
+}
+
+type EmbedMode = 'inline' | 'sidecar';
+
+function parseEmbedMode(): EmbedMode | undefined {
+  const arg = process.argv.find(a => a === '--embed-sources' || a.startsWith('--embed-sources='));
+  if (!arg) return undefined;
+  const mode = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : 'inline';
+  if (mode !== 'inline' && mode !== 'sidecar') {
+    console.error(`Invalid --embed-sources mode "${mode}". Use inline or sidecar.`);
+    process.exit(2);
+  }
+  return mode;
+}
+
+/**
+ * Worker threads for parsing: --concurrency <n>, default one per CPU up to 4. Each worker
+ * loads its own TypeScript compiler, so more rarely pays off.
+ */
+function parseConcurrency(): number {
+  const value = readFlag(process.argv.slice(2), '--concurrency');
+  // availableParallelism() is Node 18.14+; a named import of it would fail to link before that
+  if (value === undefined) return Math.min(os.availableParallelism?.() ?? os.cpus().length, 4);
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(`Invalid --concurrency "${value}". Use a positive integer.`);
+    process.exit(2);
+  }
+  return concurrency;
+}
+
+/**
+ * Path of the gzipped sources sidecar for a manifest: "2.26.14.json" → "2.26.14.sources.json.gz".
+ */
+function sidecarPath(manifestPath: string): string {
+  return join(dirname(manifestPath), `${basename(manifestPath, '.json')}.sources.json.gz`);
+}
+
+/**
+ * The manifest previously written to `path`, whose unchanged entries can be reused.
+ */
+function readPreviousManifest(path: string): Manifest | undefined {
+  if (!existsSync(path)) return undefined;
+  const parsed = readManifestFile(path);
+  if (!parsed.ok) {
+    console.warn(`  Warning: the previous manifest at ${path} is invalid; re-parsing everything`);
+    return undefined;
+  }
+  return parsed.manifest;
+}
+
+/**
+ * Embed component sources in the manifest. In sidecar mode, returns the gzipped sidecar
+ * for the caller to write (or compare) instead.
+ */
+function embedSources(manifest: Manifest, mode: EmbedMode, outputPath: string): Buffer | undefined {
+  const components = Object.fromEntries(manifest.components.map(c => [c.name, collectSourceFiles(join(componentsPath, c.name))]));
+  if (mode === 'inline') {
+    manifest.sources = { components };
+    return undefined;
+  }
+  manifest.sources = { sidecar: basename(sidecarPath(outputPath)) };
+  return gzipSync(JSON.stringify({ designSystemVersion: manifest.designSystemVersion, components }));
+}
+
+/**
+ * --check: build the manifest in memory, re-parsing everything, and compare it with the one
+ * at `outputPath`. Exits 1 on drift so CI can catch a stale committed manifest.
+ */
+async function runCheck(outputPath: string, mode: EmbedMode | undefined, concurrency: number): Promise<number> {
+  if (!existsSync(outputPath)) {
+    console.error(`${outputPath} does not exist. Run "npm run generate-manifest" to create it.`);
+    return 1;
+  }
+  const parsed = readManifestFile(outputPath);
+  if (!parsed.ok) {
+    console.error(formatManifestErrors(outputPath, parsed.errors));
+    return 2;
+  }
+
+  const { manifest } = await buildManifest(undefined, true, concurrency);
+  const sidecar = mode ? embedSources(manifest, mode, outputPath) : undefined;
+  // Report an older format on disk as drift rather than hiding it behind the in-memory migration
+  const onDisk = parsed.migratedFrom ? { ...parsed.manifest, version: parsed.migratedFrom } : parsed.manifest;
+  const drift = detectManifestDrift(onDisk, manifest);
+
+  if (sidecar) {
+    const path = sidecarPath(outputPath);
+    let existing: unknown;
+    try {
+      existing = JSON.parse(gunzipSync(readFileSync(path)).toString('utf-8'));
+    } catch {
+      existing = undefined;
+    }
+    if (!jsonEqual(existing, JSON.parse(gunzipSync(sidecar).toString('utf-8')))) drift.fields.push(`sources (${basename(path)})`);
+  }
+
+  const report = formatManifestDrift(drift, outputPath);
+  if (hasDrift(drift)) {
+    console.error(report);
+    return 1;
+  }
+  console.log(report);
+  return 0;
+}
+
+const embedMode = parseEmbedMode();
+const force = process.argv.includes('--force');
+const concurrency = parseConcurrency();
+const srcOutputPath = resolveOutputPath(designSystem.version);
+
+if (process.argv.includes('--check')) {
+  process.exit(await runCheck(srcOutputPath, embedMode, concurrency));
+}
+
+const { manifest, reparsed, tokensReparsed, ignored, classified, exampleFiles } = await buildManifest(force ? undefined : readPreviousManifest(srcOutputPath), force, concurrency);
+
+mkdirSync(dirname(srcOutputPath), { recursive: true });
+
+if (embedMode) {
+  const compressed = embedSources(manifest, embedMode, srcOutputPath);
+  if (compressed) {
+    const path = sidecarPath(srcOutputPath);
+    writeFileSync(path, compressed);
+    console.log(`Embedded sources: ${(compressed.length / 1024).toFixed(1)} KB gzipped → ${path}`);
+  }
+}
 
 writeFileSync(srcOutputPath, JSON.stringify(manifest, null, 2));
 
@@ -217,4 +506,26 @@ const totalSubComponents = manifest.components.reduce((sum, c) => sum + c.subCom
 const fileSizeKb = (Buffer.byteLength(JSON.stringify(manifest)) / 1024).toFixed(1);
 
 console.log(`Manifest generated: ${componentCount} components, ${totalProps} props, ${totalSlots} slots, ${totalSubComponents} sub-components`);
+if (force) {
+  console.log('Cache bypassed (--force): re-parsed every component');
+} else if (reparsed.length === 0) {
+  console.log(`Re-parsed 0 of ${componentCount} components (all unchanged)${tokensReparsed ? '; tokens re-parsed' : ''}`);
+} else {
+  console.log(`Re-parsed ${reparsed.length} of ${componentCount} components: ${reparsed.join(', ')}${tokensReparsed ? '; tokens re-parsed' : ''}`);
+}
+if (ignored.length > 0) console.log(`Ignored: ${ignored.join(', ')}`);
+const documented = manifest.components.filter(c => c.docs).length;
+console.log(documented > 0 ? `Docs: ${documented} of ${componentCount} components` : `Docs: none found in ${docsPath} or the component directories`);
+const exemplified = manifest.components.filter(c => c.examples).length;
+console.log(`Examples: ${exemplified} of ${componentCount} components, from ${exampleFiles} docs, demo and spec file(s)`);
+const dependencyGraph = buildDependencyGraph(manifest.components);
+const dependencyEdges = [...dependencyGraph.uses.values()].reduce((sum, edges) => sum + edges.length, 0);
+console.log(`Dependencies: ${dependencyEdges} between components, ${[...dependencyGraph.uses.values()].filter(e => e.length > 0).length} of ${componentCount} components render others`);
+if (manifest.diagnostics!.length > 0) {
+  const affected = new Set(manifest.diagnostics!.map(d => d.component));
+  console.log(`Parser failures: ${manifest.diagnostics!.length} in ${affected.size} component(s), recorded in the manifest's diagnostics`);
+}
+for (const c of classified) {
+  console.log(`Not in ${basename(componentConfigPath)}: ${c.name} → ${c.category} (${c.reason})`);
+}
 console.log(`File size: ${fileSizeKb} KB → ${srcOutputPath}`);
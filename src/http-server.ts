@@ -0,0 +1,299 @@
+/**
+ * Transport selection and the opt-in Streamable HTTP server.
+ *
+ * stdio stays the default. HTTP mode lets several editors and agents share one
+ * server instance: each client session gets its own MCP Server connected to a
+ * StreamableHTTPServerTransport, all backed by the same in-memory manifest.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from 'http';
+import { randomUUID, createHash, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { readFlag } from './utils.js';
+
+export interface ServerOptions {
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+  path: string;
+  authToken?: string;
+  /** Extra hostnames accepted in Host and Origin headers, on top of loopback and the bind host. */
+  allowedHosts: string[];
+  /** Sessions with no requests for this long are closed. */
+  sessionTimeoutMs: number;
+  /** New sessions are refused while this many are open. */
+  maxSessions: number;
+}
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_PATH = '/mcp';
+export const DEFAULT_SESSION_TIMEOUT_SECONDS = 30 * 60;
+export const DEFAULT_MAX_SESSIONS = 100;
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+
+/**
+ * Resolve transport options from CLI flags, falling back to environment variables.
+ *
+ *   --http | --transport <stdio|http>   MCP_TRANSPORT
+ *   --host <host>                       MCP_HTTP_HOST   (default 127.0.0.1)
+ *   --port <port>                       MCP_HTTP_PORT   (default 3000)
+ *   --path <path>                       MCP_HTTP_PATH   (default /mcp)
+ *   --auth-token <token>                MCP_AUTH_TOKEN  (optional bearer token)
+ *   --allowed-hosts <host,host>         MCP_ALLOWED_HOSTS (extra Host/Origin hostnames)
+ *   --session-timeout <seconds>         MCP_SESSION_TIMEOUT (default 1800)
+ *   --max-sessions <count>              MCP_MAX_SESSIONS (default 100)
+ */
+export function parseServerOptions(argv: string[], env: NodeJS.ProcessEnv): ServerOptions {
+  const transportValue = argv.includes('--http')
+    ? 'http'
+    : (readFlag(argv, '--transport') ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+
+  if (transportValue !== 'stdio' && transportValue !== 'http') {
+    throw new Error(`Invalid transport "${transportValue}". Use "stdio" or "http".`);
+  }
+
+  const portValue = readFlag(argv, '--port') ?? env.MCP_HTTP_PORT;
+  const port = portValue === undefined ? DEFAULT_HTTP_PORT : Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${portValue}". Use an integer between 0 and 65535.`);
+  }
+
+  const timeoutValue = readFlag(argv, '--session-timeout') ?? env.MCP_SESSION_TIMEOUT;
+  const sessionTimeout = timeoutValue === undefined ? DEFAULT_SESSION_TIMEOUT_SECONDS : Number(timeoutValue);
+  if (!Number.isFinite(sessionTimeout) || sessionTimeout <= 0) {
+    throw new Error(`Invalid session timeout "${timeoutValue}". Use a positive number of seconds.`);
+  }
+
+  const maxSessionsValue = readFlag(argv, '--max-sessions') ?? env.MCP_MAX_SESSIONS;
+  const maxSessions = maxSessionsValue === undefined ? DEFAULT_MAX_SESSIONS : Number(maxSessionsValue);
+  if (!Number.isInteger(maxSessions) || maxSessions < 1) {
+    throw new Error(`Invalid max sessions "${maxSessionsValue}". Use a positive integer.`);
+  }
+
+  const path = readFlag(argv, '--path') ?? env.MCP_HTTP_PATH ?? DEFAULT_HTTP_PATH;
+  const allowedHosts = readFlag(argv, '--allowed-hosts') ?? env.MCP_ALLOWED_HOSTS ?? '';
+
+  return {
+    transport: transportValue,
+    host: readFlag(argv, '--host') ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    port,
+    path: path.startsWith('/') ? path : `/${path}`,
+    authToken: readFlag(argv, '--auth-token') ?? (env.MCP_AUTH_TOKEN || undefined),
+    allowedHosts: allowedHosts.split(',').map(host => host.trim().toLowerCase()).filter(Boolean),
+    sessionTimeoutMs: sessionTimeout * 1000,
+    maxSessions,
+  };
+}
+
+/**
+ * Constant-time bearer token check. Hashing first keeps the comparison length-independent.
+ */
+export function isAuthorized(authorizationHeader: string | undefined, token: string | undefined): boolean {
+  if (!token) return true;
+  const match = authorizationHeader?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const expected = createHash('sha256').update(token).digest();
+  const actual = createHash('sha256').update(match[1].trim()).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Hostnames a request may name in its Host and Origin headers: loopback, the bind host
+ * (unless it is a wildcard address) and any configured extras. Checking them keeps a web
+ * page from reaching the server through DNS rebinding.
+ */
+export function allowedHostnames(options: Pick<ServerOptions, 'host' | 'allowedHosts'>): Set<string> {
+  const bindHost = options.host.includes(':') && !options.host.startsWith('[') ? `[${options.host}]` : options.host;
+  const hosts = [...LOOPBACK_HOSTS, ...options.allowedHosts];
+  if (!WILDCARD_HOSTS.includes(bindHost)) hosts.push(bindHost);
+  return new Set(hosts.map(host => host.toLowerCase()));
+}
+
+/**
+ * Whether the Host header, and the Origin header when a browser sends one, name an allowed hostname.
+ */
+export function isAllowedOrigin(hostHeader: string | undefined, originHeader: string | undefined, allowed: Set<string>): boolean {
+  const hostname = (value: string) => {
+    try {
+      return new URL(value).hostname.toLowerCase();
+    } catch {
+      return undefined;
+    }
+  };
+  if (!hostHeader) return false;
+  const host = hostname(`http://${hostHeader}`);
+  if (!host || !allowed.has(host)) return false;
+  if (originHeader === undefined) return true;
+  const origin = hostname(originHeader);
+  return origin !== undefined && allowed.has(origin);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new SyntaxError('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+}
+
+/**
+ * Start the Streamable HTTP server. `createServer` is called once per client session.
+ * Sessions end on DELETE, when their transport closes, or after `sessionTimeoutMs`
+ * without a request, so clients that disconnect without DELETE don't leak servers.
+ */
+export async function startHttpServer(createServer: () => Server, options: ServerOptions): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+  const allowed = allowedHostnames(options);
+
+  const closeIdleSessions = () => {
+    const cutoff = Date.now() - options.sessionTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.lastActive > cutoff) continue;
+      sessions.delete(id);
+      session.transport.close().catch(() => undefined);
+    }
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== options.path) {
+      sendJsonRpcError(res, 404, -32000, `Not found. The MCP endpoint is ${options.path}`);
+      return;
+    }
+
+    if (!isAllowedOrigin(req.headers.host, req.headers.origin, allowed)) {
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: Host or Origin header is not allowed');
+      return;
+    }
+
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) existing.lastActive = Date.now();
+
+    if (sessionId && !existing) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        const tooLarge = error instanceof Error && error.message === 'Request body too large';
+        sendJsonRpcError(res, tooLarge ? 413 : 400, -32700, error instanceof Error ? error.message : 'Parse error');
+        return;
+      }
+
+      if (existing) {
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      if (sessions.size >= options.maxSessions) {
+        sendJsonRpcError(res, 503, -32000, `Too many sessions (limit ${options.maxSessions}). Try again later.`, { 'Retry-After': '60' });
+        return;
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          sessions.set(id, { transport, lastActive: Date.now() });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      await createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    sendJsonRpcError(res, 405, -32000, 'Method not allowed', { Allow: 'GET, POST, DELETE' });
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  const sweep = setInterval(closeIdleSessions, Math.min(options.sessionTimeoutMs, 60_000));
+  sweep.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(sweep);
+    for (const { transport } of sessions.values()) {
+      transport.close().catch(() => undefined);
+    }
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const onError = (error: Error) => {
+      clearInterval(sweep);
+      reject(error);
+    };
+    httpServer.once('error', onError);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', onError);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
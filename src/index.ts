@@ -5,439 +5,833 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
 } from '@modelcontextprotocol/sdk/types.js';
-import { readFileSync, existsSync, readdirSync, statSync } from 'fs';
-import { join, dirname, extname } from 'path';
+import { existsSync } from 'fs';
+import { join, dirname, basename, resolve } from 'path';
 import { fileURLToPath } from 'url';
-import { createRequire } from 'module';
-import { generateUsageExample } from './utils.js';
-
-// ── Load pre-built manifest ───────────────────────────────────────────
+import { generateUsageExample, componentAliases, readFlag } from './utils.js';
+import { readComponentConfig, mergeComponentAliases } from './component-config.js';
+import { validateUsage } from './usage-validator.js';
+import { promptDefinitions, getPrompt } from './prompts.js';
+import { searchComponents } from './search.js';
+import { suggestComponents } from './suggest.js';
+import { generateTypeDeclarations } from './type-declarations.js';
+import { parseServerOptions, startHttpServer } from './http-server.js';
+import { diffManifests, summarizeChanges } from './manifest-diff.js';
+import {
+  parseDesignSystemSourceOptions,
+  resolveDesignSystemSource,
+  describeDesignSystemSource,
+  type DesignSystemSource,
+  type DesignSystemSourceOptions,
+} from './design-system-source.js';
+import {
+  resolveContainedPath,
+  listSourceFiles,
+  readSourceFiles,
+  listEmbeddedSourceFiles,
+  readEmbeddedSourceFiles,
+  type SourceFile,
+  type SourceFileOptions,
+} from './source-files.js';
+import {
+  componentListToMarkdown,
+  componentDetailsToMarkdown,
+  searchResultsToMarkdown,
+  propMatchesToMarkdown,
+  sourceFileToMarkdown,
+  tokensToMarkdown,
+  assetsToMarkdown,
+  storesToMarkdown,
+  usageReportToMarkdown,
+  versionsToMarkdown,
+  type VersionMismatch,
+  manifestDiffToMarkdown,
+  suggestionsToMarkdown,
+  typeDeclarationsToMarkdown,
+  diagnosticsToMarkdown,
+  componentDocsToMarkdown,
+  componentDependenciesToMarkdown,
+} from './markdown.js';
+import {
+  listTools,
+  parseToolCall,
+  toolErrorResult,
+  argumentError,
+  componentDetailFields,
+  type ComponentDetailField,
+  type ToolArguments,
+  type ToolError,
+} from './tool-schemas.js';
+import {
+  createManifestContext,
+  readManifestFile,
+  formatManifestErrors,
+  discoverManifestFiles,
+  detectProjectVersion,
+  selectManifestVersion,
+  compareVersions,
+  findComponent,
+  componentNotFoundMessage,
+  getEmbeddedSources,
+  type ManifestContext,
+} from './manifests.js';
+
+// ── Load pre-built manifests ──────────────────────────────────────────
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Look for manifest in project root first (generated at build time), then dist/
+// Which package (or checkout) the consuming project and the source fallback refer to
+let sourceOptions: DesignSystemSourceOptions;
+try {
+  sourceOptions = parseDesignSystemSourceOptions(process.argv.slice(2), process.env);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+// Extra component aliases from --config (MCP_COMPONENT_CONFIG), merged over the built-in table
+const componentConfigPath = readFlag(process.argv.slice(2), '--config') ?? process.env.MCP_COMPONENT_CONFIG;
+let aliases: Record<string, string[]> = componentAliases;
+if (componentConfigPath) {
+  try {
+    aliases = mergeComponentAliases(readComponentConfig(resolve(componentConfigPath)));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// Look for the bundled manifest in project root first (generated at build time), then dist/
 const manifestPaths = [
   join(__dirname, '..', 'component-manifest.json'),
   join(__dirname, 'component-manifest.json'),
 ];
 
-let manifest: Manifest;
-const manifestPath = manifestPaths.find(p => existsSync(p));
-if (manifestPath) {
-  try {
-    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
-  } catch (error) {
-    console.error(`Error parsing component-manifest.json: ${error instanceof Error ? error.message : String(error)}`);
-    process.exit(1);
+// Additional design-system-next versions: any manifest JSON in these directories
+const manifestDirs = [
+  ...(process.env.MCP_MANIFESTS_DIR ? [process.env.MCP_MANIFESTS_DIR] : []),
+  join(__dirname, '..', 'manifests'),
+  join(__dirname, 'manifests'),
+];
+
+// Keyed by designSystemVersion; the first manifest loaded for a version wins
+const manifests = new Map<string, ManifestContext>();
+
+const bundledManifestPath = manifestPaths.find(p => existsSync(p));
+const candidatePaths = [...(bundledManifestPath ? [bundledManifestPath] : []), ...discoverManifestFiles(manifestDirs)];
+
+for (const path of candidatePaths) {
+  const parsed = readManifestFile(path);
+  if (!parsed.ok) {
+    console.error(formatManifestErrors(path, parsed.errors));
+    if (path === bundledManifestPath) process.exit(1);
+    continue;
   }
+  const { manifest } = parsed;
+  if (parsed.migratedFrom) {
+    console.error(`Migrated ${basename(path)} from manifest format ${parsed.migratedFrom}; regenerate it to skip this step`);
+  }
+  if (manifests.has(manifest.designSystemVersion)) continue;
+  manifests.set(manifest.designSystemVersion, createManifestContext(manifest, path, aliases));
   console.error(`Loaded manifest: ${manifest.components.length} components, design-system-next v${manifest.designSystemVersion}`);
-} else {
+}
+
+if (manifests.size === 0) {
   console.error('component-manifest.json not found. Run "npm run generate-manifest" first.');
   process.exit(1);
 }
 
+// Default to the version the consuming project uses, else the bundled manifest
+let defaultVersion = manifests.keys().next().value as string;
+const projectVersion = detectProjectVersion(process.env.MCP_PROJECT_ROOT ?? process.cwd(), sourceOptions.packageName);
+if (projectVersion) {
+  const matched = selectManifestVersion(projectVersion.version, [...manifests.keys()]);
+  if (matched) {
+    defaultVersion = matched;
+  } else {
+    console.error(`No manifest matches design-system-next ${projectVersion.version} (${projectVersion.packageJsonPath}); defaulting to v${defaultVersion}`);
+  }
+}
+const defaultContext = manifests.get(defaultVersion)!;
+
+function getManifestContext(version?: string): ManifestContext | undefined {
+  if (!version) return defaultContext;
+  const matched = selectManifestVersion(version, [...manifests.keys()]);
+  return matched ? manifests.get(matched) : undefined;
+}
+
 // ── Resolve design-system-next for source fallback ────────────────────
 
-const require = createRequire(import.meta.url);
-let designSystemPath: string;
+// Only get_component_source needs the package, and only for manifests without embedded sources;
+// its version also tells us whether the bundled manifest is stale
+let designSystem: DesignSystemSource | undefined;
 
 try {
-  const designSystemMain = require.resolve('design-system-next');
-  designSystemPath = join(dirname(designSystemMain), '..');
-} catch {
-  console.error('Could not find design-system-next package. Make sure it is installed.');
-  process.exit(1);
+  designSystem = resolveDesignSystemSource(sourceOptions, import.meta.url);
+  console.error(`Source fallback: ${describeDesignSystemSource(designSystem)}`);
+} catch (error) {
+  console.error(`${error instanceof Error ? error.message : String(error)} get_component_source will only serve sources embedded in manifests.`);
+}
+
+const componentsPath = designSystem?.componentsPath;
+const installedDesignSystemVersion = designSystem?.version;
+
+// The bundled manifest is generated from the installed package; it goes stale when the package moves on
+const bundledVersion = [...manifests.values()].find(c => c.sourcePath === bundledManifestPath)?.manifest.designSystemVersion;
+const versionMismatch: VersionMismatch | null =
+  bundledVersion && installedDesignSystemVersion && bundledVersion !== installedDesignSystemVersion
+    ? {
+        manifestVersion: bundledVersion,
+        installedVersion: installedDesignSystemVersion,
+        message: `${basename(bundledManifestPath!)} was generated from ${designSystem!.packageName} v${bundledVersion}, but v${installedDesignSystemVersion} is installed. Regenerate it with "npm run generate-manifest".`,
+      }
+    : null;
+if (versionMismatch) console.error(`Warning: ${versionMismatch.message}`);
+
+function versionNotAvailable(version: string, field: string): ToolError {
+  return argumentError('version_not_available', `design-system-next version "${version}" is not available. Available versions: ${[...manifests.keys()].join(', ')}`, field);
+}
+
+function componentNotFound(ctx: ManifestContext, name: string, field: string): ToolError {
+  return argumentError('component_not_found', componentNotFoundMessage(ctx, name), field);
+}
+
+/**
+ * Whether readComponentSource has anything to read for a component: an embedded copy,
+ * or an installed package.
+ */
+function hasComponentSource(ctx: ManifestContext, componentName: string): boolean {
+  const embedded = getEmbeddedSources(ctx);
+  if (embedded) return Object.prototype.hasOwnProperty.call(embedded, componentName);
+  return !!componentsPath;
 }
 
-const componentsPath = join(designSystemPath, 'src', 'components');
+type ComponentSource =
+  | { ok: true; files: SourceFile[]; available: () => string[]; dirName: string }
+  | { ok: false; error: ToolError };
+
+/**
+ * A component's source files: embedded in its manifest if available, else read from the
+ * installed package. `explicitVersion` means the caller asked for a specific version, which
+ * the installed package may not match.
+ */
+function readComponentSource(ctx: ManifestContext, componentName: string, options: SourceFileOptions, explicitVersion: boolean): ComponentSource {
+  // Only components in the manifest, never other (or ignored) directories
+  const comp = findComponent(ctx, componentName);
+  if (!comp) return { ok: false, error: componentNotFound(ctx, componentName, 'name') };
+  const dirName = comp.name;
+
+  // Out-of-range line numbers are reported rather than returned as empty files
+  const select = (read: () => SourceFile[], available: () => string[]): ComponentSource => {
+    try {
+      return { ok: true, files: read(), available, dirName };
+    } catch (error) {
+      return { ok: false, error: argumentError('invalid_arguments', error instanceof Error ? error.message : String(error), 'startLine') };
+    }
+  };
 
-import type { PropDefinition, EmitDefinition, SlotDefinition, TypeDefinition, ComposableInfo, SubComponentManifest, ComponentManifest, Manifest } from './types.js';
+  const embedded = getEmbeddedSources(ctx);
+  if (embedded) {
+    if (!Object.prototype.hasOwnProperty.call(embedded, dirName)) {
+      return { ok: false, error: argumentError('source_unavailable', `The design-system-next v${ctx.manifest.designSystemVersion} manifest has no embedded source for "${comp.name}".`) };
+    }
+    const files = embedded[dirName];
+    return select(() => readEmbeddedSourceFiles(files, options), () => listEmbeddedSourceFiles(files));
+  }
 
-// ── Build in-memory indexes from manifest ─────────────────────────────
+  const { designSystemVersion } = ctx.manifest;
+  if (!componentsPath) {
+    return {
+      ok: false,
+      error: argumentError('source_unavailable', `Source for design-system-next v${designSystemVersion} is not available: the package is not installed and the manifest has no embedded sources. Install design-system-next, or regenerate the manifest with "npm run generate-manifest -- --embed-sources". get_component has the structured API.`),
+    };
+  }
 
-const componentMap = new Map<string, ComponentManifest>();
-const componentsByCategory = new Map<string, ComponentManifest[]>();
+  // Never let the requested name reach outside the components directory
+  const componentDir = resolveContainedPath(componentsPath, dirName);
+  if (!componentDir || !existsSync(componentDir)) {
+    return { ok: false, error: componentNotFound(ctx, componentName, 'name') };
+  }
 
-for (const comp of manifest.components) {
-  componentMap.set(comp.name, comp);
-  const catList = componentsByCategory.get(comp.category) ?? [];
-  catList.push(comp);
-  componentsByCategory.set(comp.category, catList);
+  // The installed package may not be the requested version
+  if (explicitVersion && designSystemVersion !== installedDesignSystemVersion) {
+    return {
+      ok: false,
+      error: argumentError(
+        'source_unavailable',
+        `Source for design-system-next v${designSystemVersion} is not available; the installed package is v${installedDesignSystemVersion}. Omit "version" to read the installed source.`,
+        'version',
+      ),
+    };
+  }
+
+  return select(() => readSourceFiles(componentDir, options), () => listSourceFiles(componentDir));
 }
 
-// Pre-build search index: component name → searchable text blob
-const searchIndex = new Map<string, string>();
-for (const comp of manifest.components) {
-  const subNames = comp.subComponents.map(s => s.name).join(' ');
-  const propNames = comp.props.map(p => p.name).join(' ');
-  const slotNames = comp.slots.map(s => s.name).join(' ');
-  const propDescriptions = comp.props.map(p => p.description ?? '').join(' ');
-
-  searchIndex.set(
-    comp.name,
-    `${comp.name} ${comp.pascalName} ${comp.category} ${subNames} ${propNames} ${slotNames} ${propDescriptions}`.toLowerCase()
-  );
+import type { PropDefinition, EmitDefinition, SlotDefinition, TypeDefinition, ComposableInfo, DesignTokens, SubComponentManifest, ComponentManifest } from './types.js';
+
+// ── Shared response builders (tools and resources) ────────────────────
+
+interface ComponentDetailOptions {
+  /** Sections to include; name, pascalName and category are always returned */
+  fields?: readonly ComponentDetailField[];
+  includeSubComponents?: boolean;
+  /** Drop prop descriptions and validator source, and collapse types to their names */
+  compact?: boolean;
+}
+
+function compactProps(props: PropDefinition[]): PropDefinition[] {
+  return props.map(({ description, validator, ...prop }) => prop);
 }
 
-// ── Source-file reader (for get_component_source fallback) ────────────
+function buildComponentDetails(comp: ComponentManifest, options: ComponentDetailOptions = {}) {
+  const { fields = componentDetailFields, includeSubComponents = true, compact = false } = options;
+  const include = (field: ComponentDetailField) => fields.includes(field);
+  const props = (list: PropDefinition[]) => (compact ? compactProps(list) : list);
 
-function readDirectoryRecursive(dir: string, extensions: string[]): Record<string, string> {
-  const result: Record<string, string> = {};
-  if (!existsSync(dir)) return result;
+  // Build a slim response — no raw template, just structured data
+  return {
+    name: comp.name,
+    pascalName: comp.pascalName,
+    category: comp.category,
+    // Prose, like prop descriptions, so compact mode leaves it out
+    ...(include('summary') && !compact && comp.docs?.summary && { summary: comp.docs.summary }),
+    ...(include('props') && { props: props(comp.props) }),
+    ...(include('emits') && { emits: comp.emits }),
+    ...(include('slots') && { slots: comp.slots }),
+    ...(include('types') && { types: compact ? comp.types.map(t => t.name) : comp.types }),
+    ...(include('composables') && { composables: comp.composables }),
+    // Sub-components carry the same props/emits/slots selection as their parent
+    ...(includeSubComponents && {
+      subComponents: comp.subComponents.map(sub => ({
+        name: sub.name,
+        pascalName: sub.pascalName,
+        ...(include('props') && { props: props(sub.props) }),
+        ...(include('emits') && { emits: sub.emits }),
+        ...(include('slots') && { slots: sub.slots }),
+      })),
+    }),
+    // Real usages from the docs, demos and specs come before the generated example
+    ...(include('examples') && comp.examples?.length && { examples: comp.examples }),
+    ...(include('usageExample') && { usageExample: generateUsageExample(comp.pascalName, comp.props, comp.slots) }),
+  };
+}
 
-  const entries = readdirSync(dir);
-  for (const entry of entries) {
-    const fullPath = join(dir, entry);
-    const stat = statSync(fullPath);
-    if (stat.isDirectory()) {
-      const nested = readDirectoryRecursive(fullPath, extensions);
-      for (const [nestedPath, content] of Object.entries(nested)) {
-        result[join(entry, nestedPath)] = content;
-      }
-    } else if (extensions.includes(extname(entry))) {
-      result[entry] = readFileSync(fullPath, 'utf-8');
-    }
-  }
-  return result;
+const tokenTypeMap: Record<string, keyof DesignTokens> = {
+  colors: 'colors',
+  spacing: 'spacing',
+  radius: 'borderRadius',
+  maxWidth: 'maxWidth',
+  utilities: 'utilities',
+};
+
+function getTokensByType(tokens: DesignTokens, tokenType: string): unknown {
+  return tokenType === 'all' ? tokens : tokens[tokenTypeMap[tokenType]];
 }
 
+// Resource URIs: design-system://components/{name}, /tokens/{type}, /stores/{name}
+const RESOURCE_SCHEME = 'design-system://';
+const tokenResourceTypes = [...Object.keys(tokenTypeMap), 'all'];
+
 // ── Create the MCP server ─────────────────────────────────────────────
 
-const server = new Server(
-  {
-    name: 'mcp-design-system-next',
-    version: '3.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
+// Each transport connection gets its own Server instance (HTTP mode creates one per
+// session); all of them share the in-memory manifest contexts built above.
+// Resources and prompts always describe the default version.
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'mcp-design-system-next',
+      version: '3.0.0',
     },
-  }
-);
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
 
-// ── Tool definitions ──────────────────────────────────────────────────
+  // ── Tool definitions ────────────────────────────────────────────────
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: 'list_components',
-        description: 'List all available components in the Sprout Design System. Returns compact overview with names, categories, slot counts, and sub-component counts.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            category: {
-              type: 'string',
-              description: 'Optional category to filter by: "form", "layout", "data", "feedback", "navigation", "filter", "utility"',
-            },
-          },
-        },
-      },
-      {
-        name: 'get_component',
-        description: 'Get structured documentation for a component: props (with types, defaults, valid values, descriptions), emits, slots (with scoped props), types, composables, and sub-components. Does NOT include raw template source — use get_component_source if you need that.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'The component name (e.g., "button", "input", "modal")',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'search_components',
-        description: 'Search for components by keyword across names, categories, prop names, slot names, and prop descriptions.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: 'Search query to match against component metadata',
-            },
-          },
-          required: ['query'],
-        },
-      },
-      {
-        name: 'search_by_prop',
-        description: 'Search for components that have a specific prop name or prop type. Also searches sub-component props.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            propName: {
-              type: 'string',
-              description: 'Prop name to search for (e.g., "disabled", "modelValue")',
-            },
-            propType: {
-              type: 'string',
-              description: 'Prop type to search for (e.g., "boolean", "string")',
-            },
-          },
-        },
-      },
-      {
-        name: 'get_component_source',
-        description: 'Get the raw source files (.ts, .vue) for a component, including sub-components. Use this only when the structured get_component output is insufficient.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'The component name (e.g., "table", "input", "modal")',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'get_tokens',
-        description: 'Get design tokens (colors, spacing, border-radius, etc.)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            type: {
-              type: 'string',
-              enum: ['colors', 'spacing', 'radius', 'maxWidth', 'utilities', 'all'],
-              description: 'Type of tokens to retrieve',
-            },
-          },
-          required: ['type'],
-        },
-      },
-      {
-        name: 'list_assets',
-        description: 'List available image assets and empty state illustrations in the design system',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'get_store',
-        description: 'Get Pinia store source code from the design system. Omit name to list all stores.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'Optional store name (e.g., "useSnackbarStore"). Omit to list all stores.',
-            },
-          },
-        },
-      },
-    ],
-  };
-});
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: listTools() };
+  });
 
-// ── Tool handlers ─────────────────────────────────────────────────────
+  // ── Tool handlers ───────────────────────────────────────────────────
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const call = parseToolCall(request.params.name, request.params.arguments);
+    if (!call.ok) {
+      return toolErrorResult(call.error);
+    }
+    const { name, args } = call;
+
+    const requestedVersion = 'version' in args ? args.version : undefined;
+    const ctx = getManifestContext(requestedVersion);
+    if (!ctx) {
+      return toolErrorResult(versionNotAvailable(requestedVersion!, 'version'));
+    }
+    const { manifest } = ctx;
+
+    const format = args.format ?? 'json';
 
-  switch (name) {
-    case 'list_components': {
-      const category = (args as { category?: string })?.category?.toLowerCase();
+    // Same data either way; markdown trades machine-readability for fewer tokens
+    const respond = <T>(result: T, toMarkdown: (result: T) => string) => ({
+      content: [{ type: 'text', text: format === 'markdown' ? toMarkdown(result) : JSON.stringify(result, null, 2) }],
+    });
+
+    switch (name) {
+      case 'list_components': {
+        const category = (args as ToolArguments<'list_components'>).category?.toLowerCase();
+
+        let components = manifest.components;
+        if (category) {
+          components = ctx.componentsByCategory.get(category) ?? [];
+        }
 
-      let components = manifest.components;
-      if (category) {
-        components = componentsByCategory.get(category) ?? [];
+        const result = components.map(c => ({
+          name: c.name,
+          pascalName: c.pascalName,
+          category: c.category,
+          propCount: c.props.length,
+          slotCount: c.slots.length,
+          subComponentCount: c.subComponents.length,
+          subComponents: c.subComponents.map(s => s.name),
+        }));
+
+        return respond(result, componentListToMarkdown);
       }
 
-      const result = components.map(c => ({
-        name: c.name,
-        pascalName: c.pascalName,
-        category: c.category,
-        propCount: c.props.length,
-        slotCount: c.slots.length,
-        subComponentCount: c.subComponents.length,
-        subComponents: c.subComponents.map(s => s.name),
-      }));
+      case 'get_component': {
+        const { name: componentName, fields, includeSubComponents, compact } = args as ToolArguments<'get_component'>;
+        const comp = findComponent(ctx, componentName);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
-    }
+        if (!comp) {
+          return toolErrorResult(componentNotFound(ctx, componentName, 'name'));
+        }
 
-    case 'get_component': {
-      const componentName = (args as { name: string }).name.toLowerCase();
-      const comp = componentMap.get(componentName);
+        const result = buildComponentDetails(comp, {
+          fields,
+          includeSubComponents,
+          compact,
+        });
 
-      if (!comp) {
-        return {
-          content: [{ type: 'text', text: `Component "${componentName}" not found. Use list_components to see available components.` }],
-          isError: true,
-        };
+        return respond(result, componentDetailsToMarkdown);
       }
 
-      const example = generateUsageExample(comp.pascalName, comp.props, comp.slots);
-
-      // Build a slim response — no raw template, just structured data
-      const result = {
-        name: comp.name,
-        pascalName: comp.pascalName,
-        category: comp.category,
-        props: comp.props,
-        emits: comp.emits,
-        slots: comp.slots,
-        types: comp.types,
-        composables: comp.composables,
-        subComponents: comp.subComponents,
-        usageExample: example,
-      };
+      case 'get_component_docs': {
+        const { name: componentName, section } = args as ToolArguments<'get_component_docs'>;
+        const comp = findComponent(ctx, componentName);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
-    }
+        if (!comp) {
+          return toolErrorResult(componentNotFound(ctx, componentName, 'name'));
+        }
 
-    case 'search_components': {
-      const query = (args as { query: string }).query.toLowerCase();
-
-      const matches: Array<{ name: string; pascalName: string; category: string }> = [];
-      for (const [compName, blob] of searchIndex) {
-        if (blob.includes(query)) {
-          const comp = componentMap.get(compName);
-          if (comp) {
-            matches.push({
-              name: comp.name,
-              pascalName: comp.pascalName,
-              category: comp.category,
-            });
+        let sections = comp.docs?.sections ?? [];
+        if (section) {
+          sections = sections.filter(s => s.heading.toLowerCase().includes(section.toLowerCase()));
+          if (sections.length === 0 && comp.docs) {
+            const headings = [...new Set(comp.docs.sections.map(s => s.heading))];
+            return toolErrorResult(argumentError('not_found', `No section of the ${comp.name} docs matches "${section}". Sections: ${headings.join(', ') || 'none'}`, 'section'));
           }
         }
+
+        return respond({
+          name: comp.name,
+          pascalName: comp.pascalName,
+          designSystemVersion: manifest.designSystemVersion,
+          // Manifests generated before docs were harvested can't tell "no docs" from "not looked for"
+          recorded: manifest.source?.docsDir !== undefined,
+          files: comp.docs?.files ?? [],
+          ...(comp.docs?.summary && { summary: comp.docs.summary }),
+          sections,
+        }, componentDocsToMarkdown);
       }
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(matches, null, 2) }],
-      };
-    }
+      case 'get_component_dependencies': {
+        const { name: componentName } = args as ToolArguments<'get_component_dependencies'>;
+        const comp = findComponent(ctx, componentName);
+
+        if (!comp) {
+          return toolErrorResult(componentNotFound(ctx, componentName, 'name'));
+        }
+
+        const { dependencyGraph } = ctx;
+        return respond({
+          name: comp.name,
+          pascalName: comp.pascalName,
+          designSystemVersion: manifest.designSystemVersion,
+          // Manifests generated before dependencies were recorded have no edges at all
+          recorded: dependencyGraph.recorded,
+          uses: dependencyGraph.uses.get(comp.name) ?? [],
+          usedBy: dependencyGraph.usedBy.get(comp.name) ?? [],
+          unresolved: dependencyGraph.unresolved.get(comp.name) ?? [],
+        }, componentDependenciesToMarkdown);
+      }
+
+      case 'search_components': {
+        const { query } = args as ToolArguments<'search_components'>;
+        const matches = searchComponents(ctx.searchIndex, query);
+
+        return respond(matches, searchResultsToMarkdown);
+      }
+
+      case 'search_by_prop': {
+        const { propName, propType } = args as ToolArguments<'search_by_prop'>;
+
+        const filterProps = (props: PropDefinition[]): PropDefinition[] =>
+          props.filter(p => {
+            const nameOk = propName ? p.name.toLowerCase().includes(propName.toLowerCase()) : true;
+            const typeOk = propType ? p.type.toLowerCase().includes(propType.toLowerCase()) : true;
+            return nameOk && typeOk;
+          });
+
+        const matches: Array<{ component: string; pascalName: string; matchedProps: PropDefinition[] }> = [];
+
+        for (const comp of manifest.components) {
+          const matched = filterProps(comp.props);
+          if (matched.length > 0) {
+            matches.push({ component: comp.name, pascalName: comp.pascalName, matchedProps: matched });
+          }
+
+          for (const sub of comp.subComponents) {
+            const subMatched = filterProps(sub.props);
+            if (subMatched.length > 0) {
+              matches.push({ component: `${comp.name}/${sub.name}`, pascalName: sub.pascalName, matchedProps: subMatched });
+            }
+          }
+        }
+
+        return respond(matches, propMatchesToMarkdown);
+      }
+
+      case 'get_component_source': {
+        const { name: componentName, files, startLine, endLine } = args as ToolArguments<'get_component_source'>;
+        const source = readComponentSource(ctx, componentName, { files, startLine, endLine }, !!requestedVersion);
+
+        if (!source.ok) {
+          return toolErrorResult(source.error);
+        }
+
+        if (source.files.length === 0) {
+          return toolErrorResult(argumentError('not_found', `No files in "${source.dirName}" match ${(files ?? []).join(', ')}. Available files: ${source.available().join(', ')}`, 'files'));
+        }
 
-    case 'search_by_prop': {
-      const { propName, propType } = args as { propName?: string; propType?: string };
-      if (!propName && !propType) {
         return {
-          content: [{ type: 'text', text: 'At least one of propName or propType is required.' }],
-          isError: true,
+          content: source.files.map(file => ({
+            type: 'text',
+            text: format === 'markdown' ? sourceFileToMarkdown(file) : JSON.stringify(file, null, 2),
+          })),
         };
       }
 
-      const filterProps = (props: PropDefinition[]): PropDefinition[] =>
-        props.filter(p => {
-          const nameOk = propName ? p.name.toLowerCase().includes(propName.toLowerCase()) : true;
-          const typeOk = propType ? p.type.toLowerCase().includes(propType.toLowerCase()) : true;
-          return nameOk && typeOk;
-        });
+      case 'get_tokens': {
+        const { type: tokenType } = args as ToolArguments<'get_tokens'>;
+
+        const result = getTokensByType(manifest.tokens, tokenType);
+        return respond(result, () =>
+          tokensToMarkdown(tokenType === 'all' ? manifest.tokens : { [tokenTypeMap[tokenType]]: result }),
+        );
+      }
+
+      case 'list_assets': {
+        return respond(manifest.assets, assetsToMarkdown);
+      }
 
-      const matches: Array<{ component: string; pascalName: string; matchedProps: PropDefinition[] }> = [];
+      case 'get_store': {
+        const storeName = (args as ToolArguments<'get_store'>).name;
 
-      for (const comp of manifest.components) {
-        const matched = filterProps(comp.props);
-        if (matched.length > 0) {
-          matches.push({ component: comp.name, pascalName: comp.pascalName, matchedProps: matched });
+        if (storeName) {
+          const store = manifest.stores.find(
+            s => s.name === storeName || s.fileName === storeName || s.fileName === `${storeName}.ts`
+          );
+          if (!store) {
+            return toolErrorResult(argumentError('not_found', `Store "${storeName}" not found. Available stores: ${manifest.stores.map(s => s.name).join(', ')}`, 'name'));
+          }
+          return respond({ name: store.name, fileName: store.fileName, source: store.source }, s => storesToMarkdown([s]));
         }
 
-        for (const sub of comp.subComponents) {
-          const subMatched = filterProps(sub.props);
-          if (subMatched.length > 0) {
-            matches.push({ component: `${comp.name}/${sub.name}`, pascalName: sub.pascalName, matchedProps: subMatched });
+        return respond(manifest.stores, storesToMarkdown);
+      }
+
+      case 'validate_usage': {
+        const { source } = args as ToolArguments<'validate_usage'>;
+        const problems = validateUsage(source, manifest.components);
+
+        return respond({ valid: problems.length === 0, problems }, usageReportToMarkdown);
+      }
+
+      case 'suggest_component': {
+        const { intent, limit } = args as ToolArguments<'suggest_component'>;
+        const suggestions = suggestComponents(intent, manifest.components, limit, ctx.aliases);
+
+        return respond(suggestions, suggestionsToMarkdown);
+      }
+
+      case 'get_type_declarations': {
+        const { components: names } = args as ToolArguments<'get_type_declarations'>;
+        let components = manifest.components;
+        if (names) {
+          const missing = names.find(n => !findComponent(ctx, n));
+          if (missing) {
+            return toolErrorResult(componentNotFound(ctx, missing, `components.${names.indexOf(missing)}`));
           }
+          components = [...new Set(names.map(n => findComponent(ctx, n)!))];
         }
+
+        const declarations = generateTypeDeclarations(manifest.designSystemVersion, components, manifest.components);
+
+        return respond(declarations, typeDeclarationsToMarkdown);
       }
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(matches, null, 2) }],
-      };
-    }
+      case 'get_diagnostics': {
+        const { component } = args as ToolArguments<'get_diagnostics'>;
+        let diagnostics = manifest.diagnostics ?? [];
+        if (component) {
+          const comp = findComponent(ctx, component);
+          if (!comp) {
+            return toolErrorResult(componentNotFound(ctx, component, 'component'));
+          }
+          diagnostics = diagnostics.filter(d => d.component === comp.name);
+        }
 
-    case 'get_component_source': {
-      const componentName = (args as { name: string }).name.toLowerCase();
-      const componentDir = join(componentsPath, componentName);
+        return respond({
+          designSystemVersion: manifest.designSystemVersion,
+          // Manifests generated before diagnostics were recorded can't vouch for completeness
+          recorded: manifest.diagnostics !== undefined,
+          versionMismatch,
+          diagnostics,
+        }, diagnosticsToMarkdown);
+      }
 
-      if (!existsSync(componentDir)) {
-        return {
-          content: [{ type: 'text', text: `Component "${componentName}" not found. Use list_components to see available components.` }],
-          isError: true,
-        };
+      case 'list_versions': {
+        const versions = [...manifests.values()]
+          .map(c => ({
+            version: c.manifest.designSystemVersion,
+            componentCount: c.manifest.components.length,
+            generatedAt: c.manifest.generatedAt,
+            default: c === defaultContext,
+            installed: c.manifest.designSystemVersion === installedDesignSystemVersion,
+            manifest: basename(c.sourcePath),
+          }))
+          .sort((a, b) => compareVersions(b.version, a.version));
+
+        return respond({
+          defaultVersion,
+          installedVersion: installedDesignSystemVersion ?? null,
+          versionMismatch,
+          projectVersion: projectVersion ? { version: projectVersion.version, packageJson: projectVersion.packageJsonPath, installed: projectVersion.installed } : null,
+          versions,
+        }, versionsToMarkdown);
       }
 
-      const files = readDirectoryRecursive(componentDir, ['.ts', '.vue']);
-      return {
-        content: [{ type: 'text', text: JSON.stringify(files, null, 2) }],
-      };
+      case 'diff_versions': {
+        const { from, to, component, breakingOnly } = args as ToolArguments<'diff_versions'>;
+        const fromContext = getManifestContext(from);
+        const toContext = getManifestContext(to);
+        if (!fromContext) {
+          return toolErrorResult(versionNotAvailable(from, 'from'));
+        }
+        if (!toContext) {
+          return toolErrorResult(versionNotAvailable(to ?? defaultVersion, 'to'));
+        }
+
+        const diff = diffManifests(fromContext.manifest, toContext.manifest);
+        let changes = diff.changes;
+        if (component) {
+          const comp = findComponent(fromContext, component) ?? findComponent(toContext, component);
+          if (!comp) {
+            return toolErrorResult(componentNotFound(toContext, component, 'component'));
+          }
+          changes = changes.filter(c => c.component === comp.name);
+        }
+        const summary = summarizeChanges(changes);
+        if (breakingOnly) {
+          changes = changes.filter(c => c.breaking);
+        }
+
+        return respond({ from: diff.from, to: diff.to, summary, changes }, manifestDiffToMarkdown);
+      }
+
+      default:
+        return toolErrorResult({ code: 'unknown_tool', message: `Unknown tool: ${name}`, fields: [] });
     }
+  });
+
+  // ── Resources ───────────────────────────────────────────────────────
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: [
+        ...defaultContext.manifest.components.flatMap(comp => [
+          {
+            uri: `${RESOURCE_SCHEME}components/${comp.name}`,
+            name: `Spr${comp.pascalName}`,
+            description: `Structured documentation for the ${comp.name} component (${comp.category})`,
+            mimeType: 'application/json',
+          },
+          // Only when it can be read: without the package or embedded sources every read fails
+          ...(hasComponentSource(defaultContext, comp.name)
+            ? [{
+              uri: `${RESOURCE_SCHEME}components/${comp.name}/source`,
+              name: `Spr${comp.pascalName} source`,
+              description: `Raw .ts and .vue source files for the ${comp.name} component`,
+              mimeType: 'application/json',
+            }]
+            : []),
+        ]),
+        ...tokenResourceTypes.map(type => ({
+          uri: `${RESOURCE_SCHEME}tokens/${type}`,
+          name: `${type} tokens`,
+          description: `Design tokens: ${type}`,
+          mimeType: 'application/json',
+        })),
+        ...defaultContext.manifest.stores.map(store => ({
+          uri: `${RESOURCE_SCHEME}stores/${store.name}`,
+          name: store.name,
+          description: `Pinia store source (${store.fileName})`,
+          mimeType: 'text/x-typescript',
+        })),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${RESOURCE_SCHEME}components/{name}`,
+          name: 'Component documentation',
+          description: 'Props, emits, slots, types, composables, sub-components and a usage example for a component',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: `${RESOURCE_SCHEME}components/{name}/source`,
+          name: 'Component source',
+          description: 'Raw .ts and .vue source files for a component, including sub-components',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: `${RESOURCE_SCHEME}tokens/{type}`,
+          name: 'Design tokens',
+          description: `Design tokens by type: ${tokenResourceTypes.join(', ')}`,
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: `${RESOURCE_SCHEME}stores/{name}`,
+          name: 'Pinia store',
+          description: 'Pinia store source code by store name',
+          mimeType: 'text/x-typescript',
+        },
+      ],
+    };
+  });
 
-    case 'get_tokens': {
-      const tokenType = (args as { type: string }).type;
-      const tokens = manifest.tokens;
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const path = uri.startsWith(RESOURCE_SCHEME) ? uri.slice(RESOURCE_SCHEME.length) : '';
 
-      const tokenTypeMap: Record<string, keyof typeof tokens> = {
-        colors: 'colors',
-        spacing: 'spacing',
-        radius: 'borderRadius',
-        maxWidth: 'maxWidth',
-        utilities: 'utilities',
-      };
+    const jsonContent = (data: unknown) => ({
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+    });
 
-      if (tokenType !== 'all' && !(tokenType in tokenTypeMap)) {
-        return {
-          content: [{ type: 'text', text: `Invalid token type "${tokenType}". Use one of: colors, spacing, radius, maxWidth, utilities, all` }],
-          isError: true,
-        };
+    const componentMatch = path.match(/^components\/([^/]+)(\/source)?$/);
+    if (componentMatch) {
+      const comp = findComponent(defaultContext, decodeURIComponent(componentMatch[1]));
+      if (!comp) {
+        throw new McpError(ErrorCode.InvalidParams, `Component resource not found: ${uri}`);
       }
+      if (componentMatch[2]) {
+        const source = readComponentSource(defaultContext, comp.name, {}, false);
+        if (!source.ok) {
+          throw new McpError(ErrorCode.InvalidParams, source.error.message);
+        }
+        return jsonContent(Object.fromEntries(source.files.map(file => [file.path, file.content])));
+      }
+      return jsonContent(buildComponentDetails(comp));
+    }
 
-      const result = tokenType === 'all' ? tokens : tokens[tokenTypeMap[tokenType]];
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-      };
+    const tokenMatch = path.match(/^tokens\/([^/]+)$/);
+    if (tokenMatch) {
+      if (!tokenResourceTypes.includes(tokenMatch[1])) {
+        throw new McpError(ErrorCode.InvalidParams, `Token resource not found: ${uri}. Use one of: ${tokenResourceTypes.join(', ')}`);
+      }
+      return jsonContent(getTokensByType(defaultContext.manifest.tokens, tokenMatch[1]));
     }
 
-    case 'list_assets': {
+    const storeMatch = path.match(/^stores\/([^/]+)$/);
+    if (storeMatch) {
+      const storeName = decodeURIComponent(storeMatch[1]);
+      const store = defaultContext.manifest.stores.find(s => s.name === storeName || s.fileName === storeName);
+      if (!store) {
+        throw new McpError(ErrorCode.InvalidParams, `Store resource not found: ${uri}`);
+      }
       return {
-        content: [{ type: 'text', text: JSON.stringify(manifest.assets, null, 2) }],
+        contents: [{ uri, mimeType: 'text/x-typescript', text: store.source }],
       };
     }
 
-    case 'get_store': {
-      const storeName = (args as { name?: string })?.name;
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  });
 
-      if (storeName) {
-        const store = manifest.stores.find(
-          s => s.name === storeName || s.fileName === storeName || s.fileName === `${storeName}.ts`
-        );
-        if (!store) {
-          return {
-            content: [{ type: 'text', text: `Store "${storeName}" not found. Available stores: ${manifest.stores.map(s => s.name).join(', ')}` }],
-            isError: true,
-          };
-        }
-        return {
-          content: [{ type: 'text', text: JSON.stringify({ name: store.name, fileName: store.fileName, source: store.source }, null, 2) }],
-        };
-      }
+  // ── Prompts ─────────────────────────────────────────────────────────
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(manifest.stores, null, 2) }],
-      };
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: promptDefinitions };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    let prompt: ReturnType<typeof getPrompt>;
+    try {
+      prompt = getPrompt(name, args, defaultContext.manifest);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
     }
 
-    default:
-      return {
-        content: [{ type: 'text', text: `Unknown tool: ${name}` }],
-        isError: true,
-      };
-  }
-});
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}. Available prompts: ${promptDefinitions.map(p => p.name).join(', ')}`);
+    }
+    return prompt;
+  });
+
+  return server;
+}
 
 // ── Start the server ──────────────────────────────────────────────────
 
 async function main() {
+  const options = parseServerOptions(process.argv.slice(2), process.env);
+
+  if (options.transport === 'http') {
+    const httpServer = await startHttpServer(createServer, options);
+    const address = httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : options.port;
+    console.error(`Sprout Design System MCP server started (manifest-based v3.0.0) on http://${options.host}:${port}${options.path}${options.authToken ? ' (bearer token required)' : ''}`);
+
+    const shutdown = () => {
+      httpServer.close(() => process.exit(0));
+      httpServer.closeAllConnections();
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error('Sprout Design System MCP server started (manifest-based v3.0.0)');
 }
 
@@ -0,0 +1,47 @@
+/**
+ * Content hashes for incremental manifest generation: a component is only
+ * re-parsed when one of its files (or the parsers themselves) changed.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { listSourceFiles } from './source-files.js';
+import type { ComponentManifest, Manifest } from './types.js';
+
+/**
+ * Hash the given files under `root`. Paths are part of the hash, so renames count as changes.
+ */
+export function hashFiles(root: string, paths: string[]): string {
+  const hash = createHash('sha256');
+  for (const path of [...paths].sort()) {
+    hash.update(path).update('\0').update(readFileSync(join(root, path))).update('\0');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Hash a component directory: its .ts and .vue files, including use-*.ts
+ * composables and sub-component files.
+ */
+export function hashComponentDir(dir: string): string {
+  return hashFiles(dir, listSourceFiles(dir));
+}
+
+/**
+ * Hash the files in `dir` (not recursive) that pass `filter`; empty if the directory is missing.
+ */
+export function hashDirectory(dir: string, filter: (file: string) => boolean = () => true): string {
+  const files = existsSync(dir) ? readdirSync(dir, { withFileTypes: true }).filter(e => e.isFile() && filter(e.name)).map(e => e.name) : [];
+  return hashFiles(dir, files);
+}
+
+/**
+ * The previous manifest's entry for a component, if it was parsed from identical
+ * files by the same parsers.
+ */
+export function reusableComponent(previous: Manifest | undefined, generatorHash: string, name: string, hash: string): ComponentManifest | undefined {
+  const hashes = previous?.hashes;
+  if (!hashes || hashes.generator !== generatorHash || hashes.components[name] !== hash) return undefined;
+  return previous.components.find(c => c.name === name);
+}
@@ -0,0 +1,305 @@
+/**
+ * Component API diff between two manifests, for checking what an upgrade will break.
+ */
+
+import type { ComponentManifest, EmitDefinition, Manifest, PropDefinition, SlotDefinition, TypeDefinition } from './types.js';
+
+export type ChangeTarget = 'component' | 'sub-component' | 'prop' | 'emit' | 'slot' | 'type';
+
+export type ChangeKind =
+  | 'added'
+  | 'removed'
+  | 'type-changed'
+  | 'default-changed'
+  | 'valid-values-narrowed'
+  | 'valid-values-widened'
+  | 'became-required'
+  | 'became-optional'
+  | 'payload-changed'
+  | 'scope-changed'
+  | 'definition-changed';
+
+export interface ApiChange {
+  component: string;
+  /** Set when the change is inside a sub-component */
+  subComponent?: string;
+  target: ChangeTarget;
+  /** Name of the changed component, sub-component, prop, emit, slot or type */
+  name: string;
+  kind: ChangeKind;
+  breaking: boolean;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ManifestDiff {
+  from: string;
+  to: string;
+  summary: {
+    breaking: number;
+    nonBreaking: number;
+    componentsAdded: number;
+    componentsRemoved: number;
+    componentsChanged: number;
+  };
+  changes: ApiChange[];
+}
+
+type Scope = Pick<ApiChange, 'component' | 'subComponent'>;
+
+function byName<T extends { name: string }>(items: T[]): Map<string, T> {
+  return new Map(items.map(item => [item.name, item]));
+}
+
+function normalizeType(type: string): string {
+  return type.replace(/\s+/g, ' ').replace(/"/g, "'").trim();
+}
+
+/**
+ * The members of a string-literal union ("'a' | 'b'"), or null for any other type.
+ */
+function literalUnion(type: string): string[] | null {
+  const members = normalizeType(type).split('|').map(m => m.trim());
+  return members.every(m => /^'[^']*'$/.test(m)) ? members.map(m => m.slice(1, -1)) : null;
+}
+
+/**
+ * Literal union changes that only add members don't break callers; anything else might.
+ */
+function isWidening(before: string, after: string): boolean {
+  const oldMembers = literalUnion(before);
+  const newMembers = literalUnion(after);
+  return !!oldMembers && !!newMembers && oldMembers.every(m => newMembers.includes(m));
+}
+
+function label(scope: Scope, target: ChangeTarget, name: string): string {
+  const owner = scope.subComponent ? `${scope.component} › ${scope.subComponent}` : scope.component;
+  return target === 'component' ? `Component "${name}"` : `${owner}: ${target} "${name}"`;
+}
+
+// ── Member diffs ──────────────────────────────────────────────────────
+
+function diffProps(scope: Scope, before: PropDefinition[], after: PropDefinition[], changes: ApiChange[]): void {
+  const oldProps = byName(before);
+  const newProps = byName(after);
+
+  for (const [name, oldProp] of oldProps) {
+    const newProp = newProps.get(name);
+    const subject = label(scope, 'prop', name);
+
+    if (!newProp) {
+      changes.push({ ...scope, target: 'prop', name, kind: 'removed', breaking: true, message: `${subject} was removed`, before: oldProp });
+      continue;
+    }
+
+    if (normalizeType(oldProp.type) !== normalizeType(newProp.type)) {
+      const breaking = !isWidening(oldProp.type, newProp.type);
+      changes.push({ ...scope, target: 'prop', name, kind: 'type-changed', breaking, message: `${subject} type changed from ${oldProp.type} to ${newProp.type}`, before: oldProp.type, after: newProp.type });
+    }
+
+    if (oldProp.default !== newProp.default) {
+      // Callers relying on the old default get different behaviour without touching their code
+      changes.push({ ...scope, target: 'prop', name, kind: 'default-changed', breaking: true, message: `${subject} default changed from ${oldProp.default ?? 'none'} to ${newProp.default ?? 'none'}`, before: oldProp.default, after: newProp.default });
+    }
+
+    const oldValues = oldProp.validValues ?? [];
+    const newValues = newProp.validValues ?? [];
+    // An empty list means "unrestricted": adding a restriction narrows, dropping one widens
+    const removedValues = newValues.length === 0 ? [] : oldValues.length === 0 ? ['(any)'] : oldValues.filter(v => !newValues.includes(v));
+    const addedValues = oldValues.length === 0 ? [] : newValues.length === 0 ? ['(any)'] : newValues.filter(v => !oldValues.includes(v));
+    if (removedValues.length > 0) {
+      const detail = oldValues.length === 0 ? `now restricted to ${newValues.join(', ')}` : `no longer accepts ${removedValues.join(', ')}`;
+      changes.push({ ...scope, target: 'prop', name, kind: 'valid-values-narrowed', breaking: true, message: `${subject} ${detail}`, before: oldProp.validValues, after: newProp.validValues });
+    } else if (addedValues.length > 0) {
+      const detail = newValues.length === 0 ? 'is no longer restricted to a fixed set of values' : `now also accepts ${addedValues.join(', ')}`;
+      changes.push({ ...scope, target: 'prop', name, kind: 'valid-values-widened', breaking: false, message: `${subject} ${detail}`, before: oldProp.validValues, after: newProp.validValues });
+    }
+
+    if (!oldProp.required && newProp.required) {
+      changes.push({ ...scope, target: 'prop', name, kind: 'became-required', breaking: true, message: `${subject} is now required` });
+    } else if (oldProp.required && !newProp.required) {
+      changes.push({ ...scope, target: 'prop', name, kind: 'became-optional', breaking: false, message: `${subject} is no longer required` });
+    }
+  }
+
+  for (const [name, newProp] of newProps) {
+    if (oldProps.has(name)) continue;
+    const breaking = !!newProp.required;
+    const message = `${label(scope, 'prop', name)} was added${breaking ? ' as a required prop' : ''}`;
+    changes.push({ ...scope, target: 'prop', name, kind: 'added', breaking, message, after: newProp });
+  }
+}
+
+function diffEmits(scope: Scope, before: EmitDefinition[], after: EmitDefinition[], changes: ApiChange[]): void {
+  const oldEmits = byName(before);
+  const newEmits = byName(after);
+
+  for (const [name, oldEmit] of oldEmits) {
+    const newEmit = newEmits.get(name);
+    const subject = label(scope, 'emit', name);
+    if (!newEmit) {
+      changes.push({ ...scope, target: 'emit', name, kind: 'removed', breaking: true, message: `${subject} was removed`, before: oldEmit });
+    } else if (normalizeType(oldEmit.payloadType ?? '') !== normalizeType(newEmit.payloadType ?? '')) {
+      changes.push({ ...scope, target: 'emit', name, kind: 'payload-changed', breaking: true, message: `${subject} payload changed from ${oldEmit.payloadType ?? 'none'} to ${newEmit.payloadType ?? 'none'}`, before: oldEmit.payloadType, after: newEmit.payloadType });
+    }
+  }
+
+  for (const [name, newEmit] of newEmits) {
+    if (!oldEmits.has(name)) {
+      changes.push({ ...scope, target: 'emit', name, kind: 'added', breaking: false, message: `${label(scope, 'emit', name)} was added`, after: newEmit });
+    }
+  }
+}
+
+function diffSlots(scope: Scope, before: SlotDefinition[], after: SlotDefinition[], changes: ApiChange[]): void {
+  const oldSlots = byName(before);
+  const newSlots = byName(after);
+
+  for (const [name, oldSlot] of oldSlots) {
+    const newSlot = newSlots.get(name);
+    const subject = label(scope, 'slot', name);
+    if (!newSlot) {
+      changes.push({ ...scope, target: 'slot', name, kind: 'removed', breaking: true, message: `${subject} was removed`, before: oldSlot });
+      continue;
+    }
+    const oldScope = oldSlot.scopeProps ?? [];
+    const newScope = newSlot.scopeProps ?? [];
+    const removed = oldScope.filter(p => !newScope.includes(p));
+    const added = newScope.filter(p => !oldScope.includes(p));
+    if (removed.length > 0 || added.length > 0) {
+      const parts = [
+        ...(removed.length > 0 ? [`no longer provides ${removed.join(', ')}`] : []),
+        ...(added.length > 0 ? [`now provides ${added.join(', ')}`] : []),
+      ];
+      changes.push({ ...scope, target: 'slot', name, kind: 'scope-changed', breaking: removed.length > 0, message: `${subject} ${parts.join(' and ')}`, before: oldScope, after: newScope });
+    }
+  }
+
+  for (const [name, newSlot] of newSlots) {
+    if (!oldSlots.has(name)) {
+      changes.push({ ...scope, target: 'slot', name, kind: 'added', breaking: false, message: `${label(scope, 'slot', name)} was added`, after: newSlot });
+    }
+  }
+}
+
+function diffTypes(scope: Scope, before: TypeDefinition[], after: TypeDefinition[], changes: ApiChange[]): void {
+  const oldTypes = byName(before);
+  const newTypes = byName(after);
+
+  for (const [name, oldType] of oldTypes) {
+    const newType = newTypes.get(name);
+    const subject = label(scope, 'type', name);
+    if (!newType) {
+      changes.push({ ...scope, target: 'type', name, kind: 'removed', breaking: true, message: `${subject} was removed`, before: oldType.definition });
+    } else if (normalizeType(oldType.definition) !== normalizeType(newType.definition)) {
+      const breaking = !isWidening(oldType.definition, newType.definition);
+      changes.push({ ...scope, target: 'type', name, kind: 'definition-changed', breaking, message: `${subject} definition changed`, before: oldType.definition, after: newType.definition });
+    }
+  }
+
+  for (const [name, newType] of newTypes) {
+    if (!oldTypes.has(name)) {
+      changes.push({ ...scope, target: 'type', name, kind: 'added', breaking: false, message: `${label(scope, 'type', name)} was added`, after: newType.definition });
+    }
+  }
+}
+
+function diffComponent(before: ComponentManifest, after: ComponentManifest, changes: ApiChange[]): void {
+  const scope: Scope = { component: before.name };
+  diffProps(scope, before.props, after.props, changes);
+  diffEmits(scope, before.emits, after.emits, changes);
+  diffSlots(scope, before.slots, after.slots, changes);
+  diffTypes(scope, before.types, after.types, changes);
+
+  const oldSubs = byName(before.subComponents);
+  const newSubs = byName(after.subComponents);
+  for (const [name, oldSub] of oldSubs) {
+    const newSub = newSubs.get(name);
+    if (!newSub) {
+      changes.push({ ...scope, target: 'sub-component', name, kind: 'removed', breaking: true, message: `${label(scope, 'sub-component', name)} was removed` });
+      continue;
+    }
+    const subScope: Scope = { component: before.name, subComponent: name };
+    diffProps(subScope, oldSub.props, newSub.props, changes);
+    diffEmits(subScope, oldSub.emits, newSub.emits, changes);
+    diffSlots(subScope, oldSub.slots, newSub.slots, changes);
+  }
+  for (const name of newSubs.keys()) {
+    if (!oldSubs.has(name)) {
+      changes.push({ ...scope, target: 'sub-component', name, kind: 'added', breaking: false, message: `${label(scope, 'sub-component', name)} was added` });
+    }
+  }
+}
+
+// ── Manifest diff ─────────────────────────────────────────────────────
+
+/**
+ * Compare two manifests component by component. Changes are grouped by component
+ * in the order components appear in `to`, with removed components first.
+ */
+export function diffManifests(from: Manifest, to: Manifest): ManifestDiff {
+  const changes: ApiChange[] = [];
+  const oldComponents = byName(from.components);
+  const newComponents = byName(to.components);
+
+  for (const [name, oldComp] of oldComponents) {
+    if (!newComponents.has(name)) {
+      changes.push({ component: name, target: 'component', name, kind: 'removed', breaking: true, message: `Component "${name}" (Spr${oldComp.pascalName}) was removed` });
+    }
+  }
+
+  for (const [name, newComp] of newComponents) {
+    const oldComp = oldComponents.get(name);
+    if (!oldComp) {
+      changes.push({ component: name, target: 'component', name, kind: 'added', breaking: false, message: `Component "${name}" (Spr${newComp.pascalName}) was added` });
+      continue;
+    }
+    diffComponent(oldComp, newComp, changes);
+  }
+
+  return {
+    from: from.designSystemVersion,
+    to: to.designSystemVersion,
+    summary: summarizeChanges(changes),
+    changes,
+  };
+}
+
+/**
+ * Counts for a (possibly filtered) list of changes.
+ */
+export function summarizeChanges(changes: ApiChange[]): ManifestDiff['summary'] {
+  const breaking = changes.filter(c => c.breaking).length;
+  const isComponent = (c: ApiChange) => c.target === 'component';
+  return {
+    breaking,
+    nonBreaking: changes.length - breaking,
+    componentsAdded: changes.filter(c => isComponent(c) && c.kind === 'added').length,
+    componentsRemoved: changes.filter(c => isComponent(c) && c.kind === 'removed').length,
+    componentsChanged: new Set(changes.filter(c => !isComponent(c)).map(c => c.component)).size,
+  };
+}
+
+/**
+ * Plain-text report for the CLI: breaking changes first, then everything else.
+ */
+export function formatManifestDiff(diff: ManifestDiff): string {
+  const { summary } = diff;
+  const lines = [
+    `design-system-next ${diff.from} → ${diff.to}`,
+    `${summary.breaking} breaking, ${summary.nonBreaking} non-breaking change(s); ` +
+      `${summary.componentsAdded} component(s) added, ${summary.componentsRemoved} removed, ${summary.componentsChanged} changed`,
+  ];
+
+  const sections: Array<[string, ApiChange[]]> = [
+    ['Breaking changes', diff.changes.filter(c => c.breaking)],
+    ['Non-breaking changes', diff.changes.filter(c => !c.breaking)],
+  ];
+  for (const [title, changes] of sections) {
+    if (changes.length === 0) continue;
+    lines.push('', `${title}:`, ...changes.map(c => `  - ${c.message}`));
+  }
+
+  return lines.join('\n');
+}
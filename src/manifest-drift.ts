@@ -0,0 +1,107 @@
+/**
+ * Drift between a committed manifest and one freshly built from the design system,
+ * for `generate-manifest --check`.
+ */
+
+import { diffManifests } from './manifest-diff.js';
+import type { ComponentManifest, Manifest } from './types.js';
+
+export interface ComponentDrift {
+  name: string;
+  status: 'added' | 'removed' | 'changed';
+  /** Fields of the component entry that differ, e.g. ["props", "slots"] */
+  fields: string[];
+  /** API changes as reported by diff_versions; empty when only other fields differ */
+  changes: string[];
+}
+
+export interface ManifestDrift {
+  /** designSystemVersion of the manifest on disk */
+  from: string;
+  /** designSystemVersion of the freshly built manifest */
+  to: string;
+  components: ComponentDrift[];
+  /** Other top-level fields that differ, e.g. ["tokens", "stores"] */
+  fields: string[];
+}
+
+// generatedAt differs on every run, and hashes are the incremental cache's bookkeeping
+// (editing the generator changes them without changing any manifest content)
+const ignoredFields = new Set(['generatedAt', 'hashes']);
+
+const componentFields: Array<keyof ComponentManifest> = ['pascalName', 'category', 'docs', 'examples', 'props', 'emits', 'slots', 'types', 'composables', 'subComponents', 'dependencies'];
+
+/**
+ * A JSON serialization that ignores key order and undefined values, so a manifest read
+ * back from disk equals the object it was written from.
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(v => (v === undefined ? 'null' : canonical(v))).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Whether two JSON values are equal, ignoring key order.
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  return canonical(a) === canonical(b);
+}
+
+/**
+ * Compare the manifest on disk with a freshly built one, ignoring `generatedAt` and `hashes`.
+ * Components are listed removed first, then in the order they appear in `current`.
+ */
+export function detectManifestDrift(onDisk: Manifest, current: Manifest): ManifestDrift {
+  const messages = new Map<string, string[]>();
+  for (const change of diffManifests(onDisk, current).changes) {
+    if (change.target === 'component') continue;
+    messages.set(change.component, [...(messages.get(change.component) ?? []), change.message]);
+  }
+
+  const oldComponents = new Map(onDisk.components.map(c => [c.name, c]));
+  const newComponents = new Map(current.components.map(c => [c.name, c]));
+  const components: ComponentDrift[] = [];
+
+  for (const name of oldComponents.keys()) {
+    if (!newComponents.has(name)) components.push({ name, status: 'removed', fields: [], changes: [] });
+  }
+  for (const [name, comp] of newComponents) {
+    const old = oldComponents.get(name);
+    if (!old) {
+      components.push({ name, status: 'added', fields: [], changes: [] });
+      continue;
+    }
+    const fields = componentFields.filter(field => !jsonEqual(old[field], comp[field]));
+    if (fields.length > 0) components.push({ name, status: 'changed', fields, changes: messages.get(name) ?? [] });
+  }
+
+  const keys = [...new Set([...Object.keys(onDisk), ...Object.keys(current)])] as Array<keyof Manifest>;
+  const fields = keys.filter(key => key !== 'components' && !ignoredFields.has(key) && !jsonEqual(onDisk[key], current[key]));
+
+  return { from: onDisk.designSystemVersion, to: current.designSystemVersion, components, fields };
+}
+
+export function hasDrift(drift: ManifestDrift): boolean {
+  return drift.components.length > 0 || drift.fields.length > 0;
+}
+
+/**
+ * Plain-text report for the CLI, one line per drifted component followed by its API changes.
+ */
+export function formatManifestDrift(drift: ManifestDrift, path: string): string {
+  if (!hasDrift(drift)) return `${path} is up to date (design-system-next ${drift.to})`;
+
+  const versions = drift.from === drift.to ? `design-system-next ${drift.to}` : `design-system-next ${drift.from} on disk, ${drift.to} now`;
+  const lines = [`${path} is out of date (${versions}):`];
+  for (const comp of drift.components) {
+    lines.push(`  ${comp.name}: ${comp.status}${comp.fields.length > 0 ? ` (${comp.fields.join(', ')})` : ''}`);
+    lines.push(...comp.changes.map(message => `    - ${message}`));
+  }
+  if (drift.fields.length > 0) lines.push(`  Other fields: ${drift.fields.join(', ')}`);
+  lines.push('Run "npm run generate-manifest" to update it.');
+  return lines.join('\n');
+}
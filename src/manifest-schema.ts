@@ -0,0 +1,282 @@
+/**
+ * The manifest format: a zod schema mirroring `Manifest` in types.ts, the JSON Schema
+ * published from it, load-time validation, and migrations from older format versions.
+ */
+
+import { z } from 'zod';
+import type { Manifest } from './types.js';
+
+/**
+ * Current manifest format, written to `Manifest.version` by the generator.
+ * Bump it (and add a migration) whenever the shape or meaning of the data changes.
+ */
+export const manifestFormatVersion = '1.1.0';
+
+export const manifestSchemaId = 'https://unpkg.com/mcp-design-system-next/manifest.schema.json';
+
+// ── Schema ────────────────────────────────────────────────────────────
+
+const propDefinition = z.object({
+  name: z.string(),
+  type: z.string(),
+  default: z.string().optional(),
+  description: z.string().optional(),
+  validValues: z.array(z.string()).optional(),
+  required: z.boolean().optional(),
+  validator: z.string().optional(),
+});
+
+const emitDefinition = z.object({
+  name: z.string(),
+  payloadType: z.string().optional(),
+});
+
+const slotDefinition = z.object({
+  name: z.string(),
+  scoped: z.boolean(),
+  scopeProps: z.array(z.string()).optional(),
+});
+
+const typeDefinition = z.object({
+  name: z.string(),
+  kind: z.enum(['type', 'interface', 'const-array']),
+  definition: z.string(),
+});
+
+const composableInfo = z.object({
+  name: z.string(),
+  fileName: z.string(),
+  signature: z.string(),
+  returnedMembers: z.array(z.string()),
+});
+
+const templateDependencies = z.object({
+  tags: z.array(z.string()),
+  imports: z.array(z.object({ specifier: z.string(), component: z.string().optional() })),
+});
+
+const subComponentManifest = z.object({
+  name: z.string(),
+  pascalName: z.string(),
+  props: z.array(propDefinition),
+  emits: z.array(emitDefinition),
+  slots: z.array(slotDefinition),
+  dependencies: templateDependencies.optional(),
+});
+
+const componentDocs = z.object({
+  files: z.array(z.string()),
+  summary: z.string().optional(),
+  sections: z.array(z.object({ heading: z.string(), content: z.string(), file: z.string() })),
+});
+
+const componentManifest = z.object({
+  name: z.string().min(1),
+  pascalName: z.string().min(1),
+  category: z.string(),
+  docs: componentDocs.optional(),
+  examples: z
+    .array(z.object({ code: z.string(), file: z.string(), line: z.number().int().min(1), kind: z.enum(['docs', 'demo', 'spec']) }))
+    .optional(),
+  props: z.array(propDefinition),
+  emits: z.array(emitDefinition),
+  slots: z.array(slotDefinition),
+  types: z.array(typeDefinition),
+  composables: z.array(composableInfo),
+  subComponents: z.array(subComponentManifest),
+  dependencies: templateDependencies.optional(),
+});
+
+const namedValue = z.object({ name: z.string(), value: z.string() });
+
+// Color shades are keyed by number ("50", "100", ...)
+const colorShades = z.record(z.number(), z.string());
+
+const designTokens = z.object({
+  colors: z.array(z.object({ name: z.string(), shades: colorShades })),
+  spacing: z.array(namedValue),
+  borderRadius: z.array(namedValue),
+  maxWidth: z.array(namedValue),
+  utilities: z.array(z.object({ name: z.string(), properties: z.record(z.string(), z.string()) })),
+});
+
+const asset = z.object({ name: z.string(), path: z.string(), type: z.string() });
+
+export const manifestSchema = z.object({
+  version: z.string().describe('Manifest format version'),
+  generatedAt: z.string(),
+  designSystemVersion: z.string().min(1),
+  components: z.array(componentManifest),
+  tokens: designTokens,
+  stores: z.array(z.object({ name: z.string(), fileName: z.string(), source: z.string() })),
+  assets: z.object({ images: z.array(asset), emptyStates: z.array(asset) }),
+  source: z
+    .object({
+      packageName: z.string(),
+      root: z.string().optional(),
+      componentsDir: z.string(),
+      assetsDir: z.string(),
+      storesDir: z.string(),
+      docsDir: z.string().optional(),
+      git: z.object({ commit: z.string(), branch: z.string().optional() }).optional(),
+    })
+    .optional(),
+  diagnostics: z
+    .array(
+      z.object({
+        component: z.string(),
+        subComponent: z.string().optional(),
+        file: z.string(),
+        parser: z.enum(['props', 'types', 'slots', 'composable', 'dependencies']),
+        message: z.string(),
+      }),
+    )
+    .optional(),
+  sources: z
+    .object({
+      components: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+      sidecar: z.string().optional(),
+    })
+    .optional(),
+  hashes: z
+    .object({
+      generator: z.string(),
+      tokens: z.string(),
+      components: z.record(z.string(), z.string()),
+    })
+    .optional(),
+});
+
+// Fails to compile when the schema and the Manifest interface drift apart
+type Assignable<From, To> = [From] extends [To] ? true : false;
+const schemaMatchesManifest: Assignable<Manifest, z.infer<typeof manifestSchema>> & Assignable<z.infer<typeof manifestSchema>, Manifest> = true;
+void schemaMatchesManifest;
+
+/**
+ * The published JSON Schema (manifest.schema.json).
+ */
+export function manifestJsonSchema(): Record<string, unknown> {
+  const schema = z.toJSONSchema(manifestSchema, {
+    io: 'input',
+    override: ctx => {
+      // JSON object keys are strings; describe numeric keys as a pattern instead
+      if (ctx.zodSchema === colorShades) ctx.jsonSchema.propertyNames = { type: 'string', pattern: '^[0-9]+$' };
+    },
+  });
+  const { $schema, ...rest } = schema;
+  return {
+    $schema,
+    $id: manifestSchemaId,
+    title: 'mcp-design-system-next component manifest',
+    description: `Component manifest format ${manifestFormatVersion}, generated by "npm run generate-manifest".`,
+    ...rest,
+  };
+}
+
+// ── Migrations ────────────────────────────────────────────────────────
+
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (manifest: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Replace CRLF line endings in every string of a JSON value.
+ */
+export function normalizeLineEndings<T>(value: T): T {
+  if (typeof value === 'string') return value.replace(/\r\n?/g, '\n') as T;
+  if (Array.isArray(value)) return value.map(normalizeLineEndings) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, normalizeLineEndings(v)])) as T;
+  }
+  return value;
+}
+
+// Applied in order; each one upgrades a manifest from `from` to `to`
+const migrations: Migration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Normalize CRLF line endings in prop types, defaults, validators, type definitions and store sources',
+    migrate: manifest => normalizeLineEndings(manifest),
+  },
+];
+
+export type ManifestParseResult =
+  | { ok: true; manifest: Manifest; migratedFrom?: string }
+  | { ok: false; errors: string[] };
+
+function isOlder(a: string, b: string): boolean {
+  const [pa, pb] = [a, b].map(v => v.split('.').map(Number));
+  for (let i = 0; i < 3; i++) {
+    if ((pa[i] ?? 0) !== (pb[i] ?? 0)) return (pa[i] ?? 0) < (pb[i] ?? 0);
+  }
+  return false;
+}
+
+/**
+ * Upgrade a parsed manifest JSON to the current format. Manifests without a version
+ * predate versioning and are treated as 1.0.0.
+ */
+export function migrateManifest(raw: Record<string, unknown>): { manifest: Record<string, unknown>; applied: Migration[] } {
+  let manifest = { ...raw, version: typeof raw.version === 'string' ? raw.version : '1.0.0' };
+  const applied: Migration[] = [];
+  for (const migration of migrations) {
+    if (manifest.version !== migration.from) continue;
+    manifest = { ...migration.migrate(manifest), version: migration.to };
+    applied.push(migration);
+  }
+  return { manifest, applied };
+}
+
+/**
+ * A readable path into the manifest, naming array items that have a name:
+ * `components["button"].props["tone"].type` rather than `components.3.props.0.type`.
+ */
+function issuePath(manifest: unknown, path: PropertyKey[]): string {
+  let node = manifest;
+  let result = '';
+  for (const key of path) {
+    node = node && typeof node === 'object' ? (node as Record<PropertyKey, unknown>)[key] : undefined;
+    if (typeof key === 'number') {
+      const name = node && typeof node === 'object' ? (node as { name?: unknown }).name : undefined;
+      result += typeof name === 'string' ? `[${JSON.stringify(name)}]` : `[${key}]`;
+    } else {
+      result += `${result ? '.' : ''}${String(key)}`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Validate a parsed manifest JSON, migrating older formats first. Errors name the
+ * offending path, e.g. 'components["button"].props["tone"].type: expected string, received number'.
+ */
+export function parseManifest(raw: unknown): ManifestParseResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['Manifest must be a JSON object'] };
+  }
+
+  const original = (raw as Record<string, unknown>).version;
+  const { manifest, applied } = migrateManifest(raw as Record<string, unknown>);
+
+  const version = String(manifest.version);
+  if (version !== manifestFormatVersion) {
+    const reason = isOlder(version, manifestFormatVersion)
+      ? `no migration from format ${version}; regenerate it with "npm run generate-manifest"`
+      : `format ${version} is newer than this server supports (${manifestFormatVersion}); upgrade mcp-design-system-next`;
+    return { ok: false, errors: [`Unsupported manifest: ${reason}`] };
+  }
+
+  const result = manifestSchema.safeParse(manifest);
+  if (!result.success) {
+    return {
+      ok: false,
+      errors: result.error.issues.map(issue => `${issuePath(manifest, issue.path) || '(root)'}: ${issue.message.replace(/^Invalid input: /, '')}`),
+    };
+  }
+
+  return { ok: true, manifest: result.data, ...(applied.length > 0 && { migratedFrom: typeof original === 'string' ? original : 'unversioned' }) };
+}
@@ -0,0 +1,235 @@
+/**
+ * Loading and selecting manifests when several design-system-next versions are served.
+ */
+
+import { readFileSync, existsSync, readdirSync } from 'fs';
+import { join, dirname, extname, basename } from 'path';
+import { gunzipSync } from 'zlib';
+import { componentAliases, resolveComponentName, suggestComponentNames } from './utils.js';
+import { buildSearchIndex, type SearchIndexEntry } from './search.js';
+import { buildDependencyGraph, type DependencyGraph } from './component-dependencies.js';
+import type { ComponentManifest, Manifest } from './types.js';
+import type { EmbeddedSourceFiles } from './source-files.js';
+import { parseManifest, type ManifestParseResult } from './manifest-schema.js';
+import { resolvePackageRoot } from './design-system-source.js';
+
+/**
+ * A loaded manifest plus the in-memory indexes the tool handlers query.
+ */
+export interface ManifestContext {
+  manifest: Manifest;
+  sourcePath: string;
+  componentMap: Map<string, ComponentManifest>;
+  componentsByCategory: Map<string, ComponentManifest[]>;
+  searchIndex: SearchIndexEntry[];
+  dependencyGraph: DependencyGraph;
+  /** Alternative names → manifest names, for lookups, search and suggestions */
+  aliases: Record<string, string[]>;
+  /** Embedded component sources once loaded; null if the manifest has none or they can't be read */
+  embeddedSources?: Record<string, EmbeddedSourceFiles> | null;
+}
+
+/**
+ * Read, migrate and validate a manifest file. Unreadable files and JSON syntax errors
+ * are reported the same way as schema errors.
+ */
+export function readManifestFile(path: string): ManifestParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    return { ok: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+  return parseManifest(raw);
+}
+
+/**
+ * A multi-line report of manifest errors, capped at `limit` lines.
+ */
+export function formatManifestErrors(path: string, errors: string[], limit = 10): string {
+  const lines = errors.slice(0, limit).map(e => `  - ${e}`);
+  if (errors.length > limit) lines.push(`  ... and ${errors.length - limit} more`);
+  return `Invalid manifest ${path}:\n${lines.join('\n')}`;
+}
+
+export function createManifestContext(
+  manifest: Manifest,
+  sourcePath: string,
+  aliases: Record<string, string[]> = componentAliases,
+): ManifestContext {
+  const componentMap = new Map<string, ComponentManifest>();
+  const componentsByCategory = new Map<string, ComponentManifest[]>();
+
+  for (const comp of manifest.components) {
+    componentMap.set(comp.name, comp);
+    const catList = componentsByCategory.get(comp.category) ?? [];
+    catList.push(comp);
+    componentsByCategory.set(comp.category, catList);
+  }
+
+  return {
+    manifest,
+    sourcePath,
+    componentMap,
+    componentsByCategory,
+    // Tokenised terms per component, tagged with the field they came from
+    searchIndex: buildSearchIndex(manifest.components, aliases),
+    dependencyGraph: buildDependencyGraph(manifest.components),
+    aliases,
+  };
+}
+
+/**
+ * The manifest's embedded component sources, read from the sidecar file on first use.
+ */
+export function getEmbeddedSources(ctx: ManifestContext): Record<string, EmbeddedSourceFiles> | null {
+  if (ctx.embeddedSources !== undefined) return ctx.embeddedSources;
+
+  const { sources } = ctx.manifest;
+  let components = sources?.components ?? null;
+  if (!components && sources?.sidecar) {
+    // The sidecar is looked up next to the manifest only, never elsewhere on disk
+    const sidecarPath = join(dirname(ctx.sourcePath), basename(sources.sidecar));
+    try {
+      components = JSON.parse(gunzipSync(readFileSync(sidecarPath)).toString('utf-8')).components ?? null;
+    } catch (error) {
+      console.error(`Could not read embedded sources from ${basename(sidecarPath)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  ctx.embeddedSources = components;
+  return components;
+}
+
+/**
+ * Resolve a requested name (case, "Spr" prefix, PascalCase or alias) to a manifest component.
+ */
+export function findComponent(ctx: ManifestContext, name: string): ComponentManifest | undefined {
+  const resolved = resolveComponentName(name, ctx.componentMap.keys(), ctx.aliases);
+  return resolved ? ctx.componentMap.get(resolved) : undefined;
+}
+
+export function componentNotFoundMessage(ctx: ManifestContext, name: string): string {
+  const suggestions = suggestComponentNames(name, ctx.componentMap.keys(), 3, ctx.aliases);
+  const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+  return `Component "${name}" not found.${hint} Use list_components to see available components.`;
+}
+
+/**
+ * List the .json files in each existing directory, in directory order.
+ */
+export function discoverManifestFiles(dirs: string[]): string[] {
+  const files: string[] = [];
+  for (const dir of dirs) {
+    if (!existsSync(dir)) continue;
+    for (const entry of readdirSync(dir).sort()) {
+      if (extname(entry) === '.json') files.push(join(dir, entry));
+    }
+  }
+  return files;
+}
+
+// ── Version matching ──────────────────────────────────────────────────
+
+function parseVersion(version: string): number[] | null {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+export function compareVersions(a: string, b: string): number {
+  const pa = parseVersion(a) ?? [0, 0, 0];
+  const pb = parseVersion(b) ?? [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  // A pre-release sorts before its release: 2.0.0-beta.1 < 2.0.0
+  const preA = a.includes('-');
+  const preB = b.includes('-');
+  return preA === preB ? a.localeCompare(b) : preA ? -1 : 1;
+}
+
+/**
+ * Pick the highest available version satisfying a version or simple range:
+ * exact ("2.26.14"), caret ("^2.20.0"), tilde ("~2.26.0"), ">=" and x-ranges ("2.x").
+ * Returns null when nothing matches.
+ */
+export function selectManifestVersion(range: string, available: string[]): string | null {
+  const trimmed = range.trim();
+  if (available.includes(trimmed)) return trimmed;
+
+  const match = trimmed.match(/^(\^|~|>=|=|v)?\s*(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?/);
+  if (!match) return null;
+
+  const operator = match[1] ?? '';
+  const part = (value: string | undefined) => (value === undefined || value === 'x' || value === '*' ? null : Number(value));
+  const major = Number(match[2]);
+  const minor = part(match[3]);
+  const patch = part(match[4]);
+  const base = [major, minor ?? 0, patch ?? 0];
+
+  const atLeastBase = (v: number[]) =>
+    v[0] !== base[0] ? v[0] > base[0] : v[1] !== base[1] ? v[1] > base[1] : v[2] >= base[2];
+
+  const candidates = available.filter(version => {
+    const v = parseVersion(version);
+    if (!v) return false;
+    switch (operator) {
+      case '^':
+        return v[0] === major && (major !== 0 || v[1] === base[1]) && atLeastBase(v);
+      case '~':
+        return v[0] === major && v[1] === base[1] && atLeastBase(v);
+      case '>=':
+        return atLeastBase(v);
+      default:
+        return v[0] === major && (minor === null || v[1] === minor) && (patch === null || v[2] === patch);
+    }
+  });
+
+  return candidates.sort(compareVersions).pop() ?? null;
+}
+
+// ── Consuming project detection ───────────────────────────────────────
+
+export interface ProjectVersion {
+  /** Installed version, or the dependency range when the package isn't installed */
+  version: string;
+  /** package.json that declares design-system-next */
+  packageJsonPath: string;
+  installed: boolean;
+}
+
+/**
+ * Walk up from `startDir` to the nearest package.json that depends on `packageName`
+ * and report the installed version, falling back to the declared range.
+ */
+export function detectProjectVersion(startDir: string, packageName = 'design-system-next'): ProjectVersion | null {
+  let dir = startDir;
+  for (;;) {
+    const packageJsonPath = join(dir, 'package.json');
+    if (existsSync(packageJsonPath)) {
+      try {
+        const pkg = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+        const range: string | undefined =
+          pkg.dependencies?.[packageName] ??
+          pkg.devDependencies?.[packageName] ??
+          pkg.peerDependencies?.[packageName];
+
+        if (range) {
+          try {
+            const installedPkgPath = join(resolvePackageRoot(packageName, packageJsonPath), 'package.json');
+            const installed = JSON.parse(readFileSync(installedPkgPath, 'utf-8'));
+            if (installed.version) return { version: installed.version, packageJsonPath, installed: true };
+          } catch {
+            // Not installed — fall back to the declared range
+          }
+          return { version: range, packageJsonPath, installed: false };
+        }
+      } catch {
+        // Unreadable package.json — keep walking up
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
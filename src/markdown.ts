@@ -0,0 +1,399 @@
+/**
+ * Markdown renderers for tool results (`format: "markdown"`).
+ * Each takes the same data the tool would otherwise return as JSON.
+ */
+
+import { extname } from 'path';
+import type {
+  ComponentDocSection,
+  ComposableInfo,
+  DesignTokens,
+  EmitDefinition,
+  ManifestDiagnostic,
+  PropDefinition,
+  SlotDefinition,
+  StoreManifest,
+  TypeDefinition,
+  UsageExample,
+} from './types.js';
+import type { SearchResult } from './search.js';
+import type { UsageProblem } from './usage-validator.js';
+import type { ManifestDiff } from './manifest-diff.js';
+import type { SourceFile } from './source-files.js';
+import type { ComponentSuggestion } from './suggest.js';
+import type { TypeDeclarations } from './type-declarations.js';
+import type { DependencyEdge } from './component-dependencies.js';
+
+export const outputFormats = ['json', 'markdown'] as const;
+
+export type OutputFormat = typeof outputFormats[number];
+
+/**
+ * get_component's response; sections are optional because of field selection.
+ */
+export interface ComponentDetails {
+  name: string;
+  pascalName: string;
+  category: string;
+  /** From the component's docs pages, when it has any */
+  summary?: string;
+  props?: PropDefinition[];
+  emits?: EmitDefinition[];
+  slots?: SlotDefinition[];
+  /** Type names only in compact mode */
+  types?: Array<TypeDefinition | string>;
+  composables?: ComposableInfo[];
+  subComponents?: Array<{ name: string; pascalName: string; props?: PropDefinition[]; emits?: EmitDefinition[]; slots?: SlotDefinition[] }>;
+  examples?: UsageExample[];
+  usageExample?: string;
+}
+
+// ── Building blocks ───────────────────────────────────────────────────
+
+function inline(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Make a value safe for a table cell: single line, pipes escaped.
+ */
+function cell(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  return inline(String(value)).replace(/\|/g, '\\|');
+}
+
+function code(value: string | undefined): string {
+  return value ? `\`${value}\`` : '';
+}
+
+function table(headers: string[], rows: unknown[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function fence(language: string, content: string): string {
+  // Use a longer fence when the content itself contains one
+  const ticks = content.includes('```') ? '````' : '```';
+  return `${ticks}${language}\n${content.replace(/\n$/, '')}\n${ticks}`;
+}
+
+function propsTable(props: PropDefinition[]): string {
+  if (props.length === 0) return '_No props._';
+  return table(
+    ['Name', 'Type', 'Default', 'Valid values', 'Required', 'Description'],
+    props.map(p => [
+      code(p.name),
+      code(p.type),
+      code(p.default),
+      p.validValues?.map(v => `\`${v}\``).join(', '),
+      p.required ? 'yes' : '',
+      p.description,
+    ]),
+  );
+}
+
+function emitsList(emits: EmitDefinition[]): string {
+  if (emits.length === 0) return '_No emits._';
+  return emits.map(e => `- \`${e.name}\`${e.payloadType ? ` — payload: \`${inline(e.payloadType)}\`` : ''}`).join('\n');
+}
+
+function slotsList(slots: SlotDefinition[]): string {
+  if (slots.length === 0) return '_No slots._';
+  return slots
+    .map(s => `- \`${s.name}\`${s.scopeProps?.length ? ` — scope: ${s.scopeProps.map(p => `\`${p}\``).join(', ')}` : ''}`)
+    .join('\n');
+}
+
+// ── Components ────────────────────────────────────────────────────────
+
+export function componentListToMarkdown(
+  components: Array<{ name: string; pascalName: string; category: string; propCount: number; slotCount: number; subComponents: string[] }>,
+): string {
+  if (components.length === 0) return '_No components found._';
+  return table(
+    ['Component', 'Name', 'Category', 'Props', 'Slots', 'Sub-components'],
+    components.map(c => [`Spr${c.pascalName}`, code(c.name), c.category, c.propCount, c.slotCount, c.subComponents.join(', ')]),
+  );
+}
+
+export function componentDetailsToMarkdown(details: ComponentDetails): string {
+  const sections = [`# Spr${details.pascalName}`, `\`${details.name}\` · ${details.category}`];
+  if (details.summary) sections.push(details.summary);
+
+  if (details.props) sections.push('## Props', propsTable(details.props));
+  if (details.emits) sections.push('## Emits', emitsList(details.emits));
+  if (details.slots) sections.push('## Slots', slotsList(details.slots));
+
+  if (details.types && details.types.length > 0) {
+    sections.push('## Types');
+    for (const type of details.types) {
+      sections.push(typeof type === 'string' ? `- \`${type}\`` : `### ${type.name}\n\n${fence('ts', type.definition)}`);
+    }
+  }
+
+  if (details.composables && details.composables.length > 0) {
+    sections.push(
+      '## Composables',
+      details.composables
+        .map(c => `- \`${c.name}${c.signature}\` (${c.fileName}) — returns ${c.returnedMembers.map(m => `\`${m}\``).join(', ')}`)
+        .join('\n'),
+    );
+  }
+
+  if (details.subComponents && details.subComponents.length > 0) {
+    sections.push('## Sub-components');
+    for (const sub of details.subComponents) {
+      sections.push(`### Spr${sub.pascalName}`);
+      if (sub.props) sections.push('#### Props', propsTable(sub.props));
+      if (sub.emits && sub.emits.length > 0) sections.push('#### Emits', emitsList(sub.emits));
+      if (sub.slots && sub.slots.length > 0) sections.push('#### Slots', slotsList(sub.slots));
+    }
+  }
+
+  if (details.examples && details.examples.length > 0) {
+    sections.push('## Examples');
+    for (const example of details.examples) sections.push(`From \`${example.file}:${example.line}\` (${example.kind}):\n\n${fence('vue', example.code)}`);
+  }
+
+  if (details.usageExample) sections.push(details.examples?.length ? '## Generated Example' : '## Usage', fence('vue', details.usageExample));
+
+  return sections.join('\n\n');
+}
+
+export function componentDocsToMarkdown(docs: {
+  name: string;
+  pascalName: string;
+  designSystemVersion: string;
+  recorded: boolean;
+  files: string[];
+  summary?: string;
+  sections: ComponentDocSection[];
+}): string {
+  const sections = [`# Spr${docs.pascalName}`];
+  if (!docs.recorded) {
+    sections.push(`_The design-system-next v${docs.designSystemVersion} manifest predates docs harvesting; regenerate it to include the docs pages._`);
+    return sections.join('\n\n');
+  }
+  if (docs.files.length === 0) {
+    sections.push(`_No docs pages for \`${docs.name}\` in design-system-next v${docs.designSystemVersion}._`);
+    return sections.join('\n\n');
+  }
+
+  if (docs.summary) sections.push(docs.summary);
+  const multipleFiles = docs.files.length > 1;
+  for (const section of docs.sections) {
+    sections.push(`## ${section.heading}`, section.content);
+    if (multipleFiles) sections.push(`_From ${code(section.file)}_`);
+  }
+  sections.push(`_Source: ${docs.files.map(code).join(', ')}_`);
+  return sections.join('\n\n');
+}
+
+export function componentDependenciesToMarkdown(dependencies: {
+  name: string;
+  pascalName: string;
+  designSystemVersion: string;
+  recorded: boolean;
+  uses: DependencyEdge[];
+  usedBy: DependencyEdge[];
+  unresolved: string[];
+}): string {
+  const sections = [`# Spr${dependencies.pascalName}`];
+  if (!dependencies.recorded) {
+    sections.push(`_The design-system-next v${dependencies.designSystemVersion} manifest predates dependency tracking; regenerate it to include component dependencies._`);
+    return sections.join('\n\n');
+  }
+
+  const edges = (list: DependencyEdge[], none: string) =>
+    list.length === 0 ? none : table(['Component', 'Via', 'In'], list.map(e => [e.component, e.via.map(code).join(', '), e.from.join(', ')]));
+  sections.push('## Uses', edges(dependencies.uses, '_Renders no other Sprout components._'));
+  sections.push('## Used By', edges(dependencies.usedBy, '_Not rendered by any other Sprout component._'));
+  if (dependencies.unresolved.length > 0) {
+    sections.push(`_Also renders ${dependencies.unresolved.map(code).join(', ')}, which ${dependencies.unresolved.length === 1 ? 'isn\'t a component' : 'aren\'t components'} in this manifest._`);
+  }
+  return sections.join('\n\n');
+}
+
+export function searchResultsToMarkdown(results: SearchResult[]): string {
+  if (results.length === 0) return '_No matching components._';
+  return table(
+    ['Component', 'Category', 'Score', 'Matched'],
+    results.map(r => [
+      `Spr${r.pascalName}`,
+      r.category,
+      r.score,
+      r.matches.map(m => `${m.field} "${m.value}" (${m.matchType})`).join('; '),
+    ]),
+  );
+}
+
+export function suggestionsToMarkdown(suggestions: ComponentSuggestion[]): string {
+  if (suggestions.length === 0) return '_No suggestions. Try describing what the user does or sees, or use search_components._';
+  return suggestions
+    .map((s, i) => {
+      const title = `${i + 1}. **Spr${s.pascalName}**${s.subComponent ? ` (\`${s.subComponent}\`)` : ''} · ${s.category} · score ${s.score}`;
+      return [title, ...s.reasons.map(r => `   - ${r}`)].join('\n');
+    })
+    .join('\n');
+}
+
+export function propMatchesToMarkdown(matches: Array<{ component: string; pascalName: string; matchedProps: PropDefinition[] }>): string {
+  if (matches.length === 0) return '_No matching props._';
+  return matches.map(m => `## Spr${m.pascalName} (\`${m.component}\`)\n\n${propsTable(m.matchedProps)}`).join('\n\n');
+}
+
+export function sourceFileToMarkdown(file: SourceFile): string {
+  const range = file.startLine === 1 && file.endLine === file.totalLines
+    ? `${file.totalLines} lines`
+    : `lines ${file.startLine}–${file.endLine} of ${file.totalLines}`;
+  return `## ${file.path}\n\n_${file.language} · ${file.bytes} bytes · ${range}_\n\n${fence(extname(file.path).slice(1), file.content)}`;
+}
+
+export function typeDeclarationsToMarkdown(declarations: TypeDeclarations): string {
+  return [
+    `## ${declarations.fileName}`,
+    `_design-system-next ${declarations.designSystemVersion} · ${declarations.components.length} components · save next to your sources and make sure tsconfig includes it_`,
+    fence('ts', declarations.content),
+  ].join('\n\n');
+}
+
+// ── Tokens, assets and stores ─────────────────────────────────────────
+
+export function tokensToMarkdown(tokens: Partial<DesignTokens>): string {
+  const sections: string[] = [];
+
+  if (tokens.colors) {
+    const shades = [...new Set(tokens.colors.flatMap(c => Object.keys(c.shades)))].sort((a, b) => Number(a) - Number(b));
+    sections.push(
+      '## Colors',
+      tokens.colors.length === 0
+        ? '_None._'
+        : table(['Color', ...shades], tokens.colors.map(c => [c.name, ...shades.map(s => (c.shades as Record<string, string>)[s])])),
+    );
+  }
+
+  const valueTables: Array<[string, keyof DesignTokens]> = [
+    ['Spacing', 'spacing'],
+    ['Border radius', 'borderRadius'],
+    ['Max width', 'maxWidth'],
+  ];
+  for (const [title, key] of valueTables) {
+    const list = tokens[key] as Array<{ name: string; value: string }> | undefined;
+    if (!list) continue;
+    sections.push(`## ${title}`, list.length === 0 ? '_None._' : table(['Token', 'Value'], list.map(t => [code(t.name), t.value])));
+  }
+
+  if (tokens.utilities) {
+    sections.push(
+      '## Utilities',
+      tokens.utilities.length === 0
+        ? '_None._'
+        : table(['Class', 'Properties'], tokens.utilities.map(u => [code(u.name), Object.entries(u.properties).map(([k, v]) => `${k}: ${v}`).join('; ')])),
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+export function assetsToMarkdown(assets: { images: { name: string; path: string; type: string }[]; emptyStates: { name: string; path: string; type: string }[] }): string {
+  const assetTable = (list: { name: string; path: string; type: string }[]) =>
+    list.length === 0 ? '_None._' : table(['Name', 'Path', 'Type'], list.map(a => [a.name, code(a.path), a.type]));
+  return ['## Images', assetTable(assets.images), '## Empty states', assetTable(assets.emptyStates)].join('\n\n');
+}
+
+export function storesToMarkdown(stores: StoreManifest[]): string {
+  if (stores.length === 0) return '_No stores._';
+  return stores.map(s => `## ${s.name}\n\n${fence('ts', s.source)}`).join('\n\n');
+}
+
+// ── Validation and versions ───────────────────────────────────────────
+
+export function usageReportToMarkdown(report: { valid: boolean; problems: UsageProblem[] }): string {
+  if (report.valid) return 'No problems found.';
+  return table(
+    ['Line', 'Column', 'Severity', 'Kind', 'Component', 'Message'],
+    report.problems.map(p => [p.line, p.column, p.severity, p.kind, p.component, p.message]),
+  );
+}
+
+/**
+ * list_versions' warning that the bundled manifest doesn't match the installed package.
+ */
+export interface VersionMismatch {
+  manifestVersion: string;
+  installedVersion: string;
+  message: string;
+}
+
+export function versionsToMarkdown(result: {
+  defaultVersion: string;
+  installedVersion?: string | null;
+  versionMismatch?: VersionMismatch | null;
+  projectVersion: { version: string; packageJson: string; installed: boolean } | null;
+  versions: Array<{ version: string; componentCount: number; generatedAt: string; default: boolean; installed: boolean; manifest: string }>;
+}): string {
+  const lines = [`Default version: **${result.defaultVersion}**`];
+  if (result.versionMismatch) lines.push(`> **Warning:** ${result.versionMismatch.message}`);
+  if (result.projectVersion) {
+    lines.push(`Project uses ${result.projectVersion.version} (${result.projectVersion.installed ? 'installed' : 'declared'} in ${result.projectVersion.packageJson})`);
+  }
+  lines.push(
+    '',
+    table(
+      ['Version', 'Components', 'Generated', 'Default', 'Installed', 'Manifest'],
+      result.versions.map(v => [v.version, v.componentCount, v.generatedAt, v.default ? 'yes' : '', v.installed ? 'yes' : '', code(v.manifest)]),
+    ),
+  );
+  return lines.join('\n');
+}
+
+export function diagnosticsToMarkdown(result: {
+  designSystemVersion: string;
+  recorded: boolean;
+  versionMismatch: VersionMismatch | null;
+  diagnostics: ManifestDiagnostic[];
+}): string {
+  const sections: string[] = [];
+  if (result.versionMismatch) sections.push(`> **Warning:** ${result.versionMismatch.message}`);
+
+  if (!result.recorded) {
+    sections.push(`_The design-system-next v${result.designSystemVersion} manifest predates diagnostics; regenerate it to find out whether any component failed to parse._`);
+  } else if (result.diagnostics.length === 0) {
+    sections.push(`No parser failures in the design-system-next v${result.designSystemVersion} manifest.`);
+  } else {
+    sections.push(
+      table(
+        ['Component', 'File', 'Parser', 'Message'],
+        result.diagnostics.map(d => [d.subComponent ? `${d.component} › ${d.subComponent}` : d.component, code(d.file), d.parser, d.message]),
+      ),
+    );
+  }
+  return sections.join('\n\n');
+}
+
+export function manifestDiffToMarkdown(diff: ManifestDiff): string {
+  const { summary } = diff;
+  const sections = [
+    `# design-system-next ${diff.from} → ${diff.to}`,
+    `${summary.breaking} breaking, ${summary.nonBreaking} non-breaking change(s); ` +
+      `${summary.componentsAdded} component(s) added, ${summary.componentsRemoved} removed, ${summary.componentsChanged} changed`,
+  ];
+
+  const groups: Array<[string, boolean]> = [['Breaking changes', true], ['Non-breaking changes', false]];
+  for (const [title, breaking] of groups) {
+    const changes = diff.changes.filter(c => c.breaking === breaking);
+    if (changes.length === 0) continue;
+    sections.push(
+      `## ${title}`,
+      table(
+        ['Component', 'Target', 'Name', 'Change', 'Details'],
+        changes.map(c => [c.subComponent ? `${c.component} › ${c.subComponent}` : c.component, c.target, code(c.name), c.kind, c.message]),
+      ),
+    );
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,93 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve, relative, isAbsolute, sep, extname } from 'path';
+import { parseTemplate, ELEMENT, type TemplateNode } from '../template-ast.js';
+import { toPascalCase } from '../utils.js';
+
+export interface TemplateImport {
+  /** As written, e.g. "@/components/popper/popper.vue" */
+  specifier: string;
+  /** The components directory entry it points into, e.g. "popper" */
+  component?: string;
+}
+
+export interface TemplateDependencies {
+  /** <Spr*> tags the template renders, in PascalCase (e.g. "SprCheckbox") */
+  tags: string[];
+  /** Relative and "@/" imports whose bindings the template renders */
+  imports: TemplateImport[];
+}
+
+/**
+ * Recursively walk the template AST and collect element tags, in PascalCase
+ * ("spr-checkbox" and "SprCheckbox" are both "SprCheckbox").
+ */
+function findTags(node: TemplateNode, tags: Set<string>): void {
+  if (node.type === ELEMENT && node.tag) {
+    tags.add(toPascalCase(node.tag));
+  }
+  if (node.children) {
+    for (const child of node.children) {
+      findTags(child, tags);
+    }
+  }
+}
+
+/**
+ * Local binding → module specifier for each value import in a script block.
+ */
+function findImports(script: string): Map<string, string> {
+  const bindings = new Map<string, string>();
+  for (const match of script.matchAll(/import\s+(?!type\s)([\w$\s{},]+?)\s+from\s+['"]([^'"]+)['"]/g)) {
+    const [, clause, specifier] = match;
+    const named = clause.match(/\{([^}]*)\}/)?.[1] ?? '';
+    const defaultName = clause.replace(/\{[^}]*\}/, '').replace(/,/g, '').trim();
+    if (defaultName) bindings.set(defaultName, specifier);
+    for (const part of named.split(',').map(p => p.trim())) {
+      if (!part || part.startsWith('type ')) continue;
+      bindings.set(part.split(/\s+as\s+/).pop()!.trim(), specifier);
+    }
+  }
+  return bindings;
+}
+
+function isInternal(specifier: string): boolean {
+  return specifier.startsWith('.') || specifier.startsWith('@/') || specifier.startsWith('~/');
+}
+
+/**
+ * The components directory entry an internal import points into: relative imports are
+ * resolved from the file, aliased ones ("@/components/popper/popper.vue") by their path.
+ */
+function importedComponent(specifier: string, vueFilePath: string, componentsPath: string): string | undefined {
+  if (specifier.startsWith('.')) {
+    const rel = relative(componentsPath, resolve(dirname(vueFilePath), specifier));
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) return undefined;
+    const first = rel.split(sep)[0];
+    return first.replace(extname(first), '');
+  }
+  const dir = specifier.match(/(?:^|\/)components\/([^/]+)/)?.[1];
+  return dir?.replace(extname(dir), '');
+}
+
+/**
+ * Extract the components a Vue SFC's template renders: <Spr*> tags, and tags bound to
+ * internal imports, using the @vue/compiler-sfc AST.
+ */
+export function parseTemplateDependencies(vueFilePath: string, componentsPath: string): TemplateDependencies {
+  const content = readFileSync(vueFilePath, 'utf-8');
+  const { descriptor, ast } = parseTemplate(content);
+  if (!ast) return { tags: [], imports: [] };
+
+  const tags = new Set<string>();
+  findTags(ast, tags);
+
+  const bindings = findImports(`${descriptor.script?.content ?? ''}\n${descriptor.scriptSetup?.content ?? ''}`);
+  const imports: TemplateImport[] = [];
+  for (const [name, specifier] of bindings) {
+    if (!isInternal(specifier) || !tags.has(toPascalCase(name)) || imports.some(i => i.specifier === specifier)) continue;
+    const component = importedComponent(specifier, vueFilePath, componentsPath);
+    imports.push({ specifier, ...(component && { component }) });
+  }
+
+  return { tags: [...tags].filter(tag => /^Spr[A-Z]/.test(tag)), imports };
+}
@@ -0,0 +1,169 @@
+/**
+ * Parameterised MCP prompt templates for common design-system workflows.
+ * Each prompt embeds the manifest data the assistant needs up front.
+ */
+
+import type { Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { ComponentManifest, DesignTokens, Manifest, PropDefinition } from './types.js';
+
+export const promptDefinitions: Prompt[] = [
+  {
+    name: 'build_form',
+    description: 'Build a Vue form using Sprout form components (Spr inputs, selects, pickers, buttons).',
+    arguments: [
+      { name: 'description', description: 'What the form collects and how it behaves (e.g., "a login form with email, password and remember me")', required: true },
+      { name: 'framework', description: 'Optional form/validation library in use (e.g., "vee-validate")', required: false },
+    ],
+  },
+  {
+    name: 'convert_html',
+    description: 'Convert raw HTML markup into equivalent Sprout Design System components and tokens.',
+    arguments: [
+      { name: 'html', description: 'The HTML markup to convert', required: true },
+    ],
+  },
+  {
+    name: 'review_tokens',
+    description: 'Review a file for design-token misuse: hard-coded colors, spacing and radii that should use Sprout tokens.',
+    arguments: [
+      { name: 'source', description: 'The file content to review (.vue, .css, .scss, .ts)', required: true },
+      { name: 'fileName', description: 'Optional file name, used to infer the language', required: false },
+    ],
+  },
+];
+
+function summarizeProp(prop: PropDefinition): string {
+  const parts = [`${prop.name}: ${prop.type}`];
+  if (prop.required) parts.push('required');
+  if (prop.validValues?.length) parts.push(`one of ${prop.validValues.map(v => `'${v}'`).join(' | ')}`);
+  if (prop.default !== undefined) parts.push(`default ${prop.default}`);
+  return parts.join(', ');
+}
+
+function summarizeComponent(comp: ComponentManifest): string {
+  const lines = [`### Spr${comp.pascalName} (${comp.name})`];
+  if (comp.props.length > 0) {
+    lines.push('Props:', ...comp.props.map(p => `- ${summarizeProp(p)}`));
+  }
+  if (comp.emits.length > 0) {
+    lines.push(`Emits: ${comp.emits.map(e => (e.payloadType ? `${e.name} (${e.payloadType})` : e.name)).join(', ')}`);
+  }
+  if (comp.slots.length > 0) {
+    lines.push(`Slots: ${comp.slots.map(s => s.name).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function summarizeCatalog(components: ComponentManifest[]): string {
+  return components
+    .map(c => `- Spr${c.pascalName} (${c.category}): ${c.props.map(p => p.name).join(', ') || 'no props'}`)
+    .join('\n');
+}
+
+function summarizeTokens(tokens: DesignTokens): string {
+  const sections: string[] = [];
+  if (tokens.colors.length > 0) {
+    sections.push('Colors:', ...tokens.colors.map(c => `- ${c.name}: ${Object.entries(c.shades).map(([shade, hex]) => `${shade}=${hex}`).join(', ')}`));
+  }
+  if (tokens.spacing.length > 0) {
+    sections.push('Spacing:', ...tokens.spacing.map(t => `- ${t.name}: ${t.value}`));
+  }
+  if (tokens.borderRadius.length > 0) {
+    sections.push('Border radius:', ...tokens.borderRadius.map(t => `- ${t.name}: ${t.value}`));
+  }
+  if (tokens.maxWidth.length > 0) {
+    sections.push('Max width:', ...tokens.maxWidth.map(t => `- ${t.name}: ${t.value}`));
+  }
+  if (tokens.utilities.length > 0) {
+    sections.push('Utilities:', ...tokens.utilities.map(t => `- ${t.name}: ${JSON.stringify(t.properties)}`));
+  }
+  return sections.join('\n');
+}
+
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Render a prompt by name. Returns null for unknown prompts; throws when a
+ * required argument is missing.
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  manifest: Manifest,
+): { description: string; messages: PromptMessage[] } | null {
+  const definition = promptDefinitions.find(p => p.name === name);
+  if (!definition) return null;
+
+  const values = args ?? {};
+  const missing = (definition.arguments ?? []).filter(a => a.required && !values[a.name]).map(a => a.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for prompt "${name}": ${missing.join(', ')}`);
+  }
+
+  switch (name) {
+    case 'build_form': {
+      const formComponents = manifest.components.filter(c => c.category === 'form');
+      const text = [
+        `Build a Vue 3 form using the Sprout Design System (design-system-next v${manifest.designSystemVersion}).`,
+        '',
+        `Requirements: ${values.description}`,
+        ...(values.framework ? [`Use ${values.framework} for form state and validation.`] : []),
+        '',
+        'Use only the form components and props listed below. Import each component from \'design-system-next\' and use <script setup lang="ts">. Bind values with v-model and only use valid values where a prop lists them.',
+        '',
+        '## Form components',
+        '',
+        formComponents.map(summarizeComponent).join('\n\n'),
+        '',
+        '## Spacing tokens',
+        '',
+        manifest.tokens.spacing.map(t => `- ${t.name}: ${t.value}`).join('\n'),
+      ].join('\n');
+      return { description: definition.description!, messages: [userMessage(text)] };
+    }
+
+    case 'convert_html': {
+      const text = [
+        `Convert the following HTML into Vue 3 markup that uses Sprout Design System components (design-system-next v${manifest.designSystemVersion}).`,
+        '',
+        'Replace native elements with the closest Spr* component, keep the structure and behaviour, and replace hard-coded colors and spacing with design tokens. Call get_component for any component whose props you are unsure of, and flag anything that has no equivalent.',
+        '',
+        '```html',
+        values.html,
+        '```',
+        '',
+        '## Available components',
+        '',
+        summarizeCatalog(manifest.components),
+        '',
+        '## Design tokens',
+        '',
+        summarizeTokens(manifest.tokens),
+      ].join('\n');
+      return { description: definition.description!, messages: [userMessage(text)] };
+    }
+
+    case 'review_tokens': {
+      const language = values.fileName?.split('.').pop() ?? '';
+      const text = [
+        `Review ${values.fileName ? `\`${values.fileName}\`` : 'this file'} for design-token misuse against the Sprout Design System (design-system-next v${manifest.designSystemVersion}).`,
+        '',
+        'Flag hard-coded hex colors, pixel spacing, border radii and max widths that have a matching token, values that are close to but not exactly a token, and tokens that do not exist. For each finding give the line, the current value and the token to use instead.',
+        '',
+        '```' + language,
+        values.source,
+        '```',
+        '',
+        '## Design tokens',
+        '',
+        summarizeTokens(manifest.tokens),
+      ].join('\n');
+      return { description: definition.description!, messages: [userMessage(text)] };
+    }
+
+    default:
+      return null;
+  }
+}
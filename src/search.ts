@@ -0,0 +1,212 @@
+/**
+ * Offline ranked component search: tokenised, typo-tolerant, field-weighted.
+ */
+
+import type { ComponentManifest } from './types.js';
+
+export type SearchField = 'name' | 'alias' | 'sub-component' | 'category' | 'prop' | 'slot' | 'description';
+
+export type MatchType = 'exact' | 'prefix' | 'substring' | 'fuzzy';
+
+export interface SearchMatch {
+  field: SearchField;
+  value: string;
+  query: string;
+  matchType: MatchType;
+}
+
+export interface SearchResult {
+  name: string;
+  pascalName: string;
+  category: string;
+  score: number;
+  matches: SearchMatch[];
+}
+
+interface IndexedTerm {
+  field: SearchField;
+  value: string;
+  term: string;
+}
+
+export interface SearchIndexEntry {
+  component: ComponentManifest;
+  terms: IndexedTerm[];
+}
+
+// Name matches outrank structural matches, which outrank free-text descriptions
+export const fieldWeights: Record<SearchField, number> = {
+  'name': 10,
+  'alias': 8,
+  'sub-component': 6,
+  'category': 4,
+  'prop': 4,
+  'slot': 3,
+  'description': 1,
+};
+
+const matchQuality: Record<MatchType, number> = {
+  exact: 1,
+  prefix: 0.8,
+  substring: 0.5,
+  fuzzy: 0.6,
+};
+
+/**
+ * Split text into lowercase words on punctuation, whitespace and camelCase boundaries.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+ * Stops early and returns maxDistance + 1 once the distance is known to exceed it.
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+function matchTerm(query: string, term: string): { type: MatchType; quality: number } | null {
+  if (term === query) return { type: 'exact', quality: matchQuality.exact };
+  if (query.length >= 2 && term.startsWith(query)) return { type: 'prefix', quality: matchQuality.prefix };
+  if (query.length >= 3 && term.includes(query)) return { type: 'substring', quality: matchQuality.substring };
+
+  if (query.length >= 5) {
+    const maxEdits = query.length >= 8 ? 2 : 1;
+    const distance = editDistance(query, term, maxEdits);
+    if (distance <= maxEdits) {
+      return { type: 'fuzzy', quality: matchQuality.fuzzy - 0.1 * (distance - 1) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Index a field value under each of its words and under its compacted form,
+ * so "date picker", "date-picker" and "datepicker" all reach the same entry.
+ */
+function indexValue(terms: IndexedTerm[], field: SearchField, value: string): void {
+  const words = tokenize(value);
+  const seen = new Set<string>();
+  for (const term of [...words, words.join('')]) {
+    if (term && !seen.has(term)) {
+      seen.add(term);
+      terms.push({ field, value, term });
+    }
+  }
+}
+
+/**
+ * Build the search index. `aliases` maps alternative names to the component names they refer to.
+ */
+export function buildSearchIndex(
+  components: ComponentManifest[],
+  aliases: Record<string, string[]> = {},
+): SearchIndexEntry[] {
+  return components.map(comp => {
+    const terms: IndexedTerm[] = [];
+    indexValue(terms, 'name', comp.name);
+    indexValue(terms, 'name', comp.pascalName);
+    for (const [alias, targets] of Object.entries(aliases)) {
+      if (targets.includes(comp.name)) indexValue(terms, 'alias', alias);
+    }
+    indexValue(terms, 'category', comp.category);
+    for (const sub of comp.subComponents) indexValue(terms, 'sub-component', sub.name);
+    for (const prop of comp.props) {
+      indexValue(terms, 'prop', prop.name);
+      if (prop.description) indexValue(terms, 'description', prop.description);
+    }
+    for (const slot of comp.slots) indexValue(terms, 'slot', slot.name);
+    return { component: comp, terms };
+  });
+}
+
+/**
+ * Find the best-scoring term in an entry for a single query word.
+ */
+function bestMatch(entry: SearchIndexEntry, query: string): { score: number; match: SearchMatch } | null {
+  let best: { score: number; match: SearchMatch } | null = null;
+  for (const indexed of entry.terms) {
+    const result = matchTerm(query, indexed.term);
+    if (!result) continue;
+    const score = fieldWeights[indexed.field] * result.quality;
+    if (!best || score > best.score) {
+      best = { score, match: { field: indexed.field, value: indexed.value, query, matchType: result.type } };
+    }
+  }
+  return best;
+}
+
+/**
+ * Rank components against a free-text query. Every query word contributes its
+ * best field match; components matching only some words are scaled down by coverage.
+ */
+export function searchComponents(index: SearchIndexEntry[], query: string): SearchResult[] {
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+  const compactQuery = words.join('');
+
+  const results: SearchResult[] = [];
+
+  for (const entry of index) {
+    const matches: SearchMatch[] = [];
+    let total = 0;
+    for (const word of words) {
+      const best = bestMatch(entry, word);
+      if (best) {
+        total += best.score;
+        matches.push(best.match);
+      }
+    }
+    let score = total * (matches.length / words.length);
+
+    // Multi-word queries can also match a compacted term as a whole ("date picker" → "datepicker")
+    if (words.length > 1) {
+      const compact = bestMatch(entry, compactQuery);
+      if (compact && compact.score * words.length > score) {
+        score = compact.score * words.length;
+        matches.splice(0, matches.length, compact.match);
+      }
+    }
+
+    if (score > 0) {
+      const comp = entry.component;
+      results.push({
+        name: comp.name,
+        pascalName: comp.pascalName,
+        category: comp.category,
+        score: Math.round(score * 100) / 100,
+        matches,
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
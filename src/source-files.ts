@@ -0,0 +1,174 @@
+/**
+ * Reading component source files for get_component_source: path containment,
+ * glob file filters and line ranges, from disk or from sources embedded in a manifest.
+ */
+
+import { readFileSync, existsSync, readdirSync, lstatSync } from 'fs';
+import { join, resolve, relative, isAbsolute, extname, basename, sep } from 'path';
+
+export interface SourceFile {
+  /** Path relative to the component directory, with forward slashes */
+  path: string;
+  language: string;
+  /** Size of the whole file in bytes */
+  bytes: number;
+  totalLines: number;
+  /** 1-based, inclusive range of `content` within the file */
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export interface SourceFileOptions {
+  /** Glob patterns; a pattern without "/" matches file names at any depth */
+  files?: string[];
+  startLine?: number;
+  endLine?: number;
+}
+
+/**
+ * A component directory's source files as stored in a manifest: relative path
+ * (forward slashes) → file content.
+ */
+export type EmbeddedSourceFiles = Record<string, string>;
+
+const languages: Record<string, string> = {
+  '.ts': 'typescript',
+  '.vue': 'vue',
+};
+
+/**
+ * Resolve `segment` under `root`, or return null if the result would escape it
+ * (e.g. "../stores" or an absolute path).
+ */
+export function resolveContainedPath(root: string, segment: string): string | null {
+  const base = resolve(root);
+  const target = resolve(base, segment);
+  const rel = relative(base, target);
+  if (rel === '' || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) return null;
+  return target;
+}
+
+/**
+ * Convert a glob to a RegExp. Supports `*`, `**`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matchesAny(path: string, patterns: RegExp[], nameOnly: boolean[]): boolean {
+  return patterns.some((pattern, i) => pattern.test(nameOnly[i] ? basename(path) : path));
+}
+
+/**
+ * List source files under `dir` (relative paths, sorted). Symlinks are skipped
+ * so a link can't point the reader outside the directory.
+ */
+export function listSourceFiles(dir: string, prefix = ''): string[] {
+  if (!existsSync(dir)) return [];
+  const result: string[] = [];
+  for (const entry of readdirSync(dir).sort()) {
+    const fullPath = join(dir, entry);
+    const stat = lstatSync(fullPath);
+    if (stat.isSymbolicLink()) continue;
+    if (stat.isDirectory()) {
+      result.push(...listSourceFiles(fullPath, `${prefix}${entry}/`));
+    } else if (extname(entry) in languages) {
+      result.push(`${prefix}${entry}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Read every source file under `dir`, for embedding into a manifest.
+ */
+export function collectSourceFiles(dir: string): EmbeddedSourceFiles {
+  return Object.fromEntries(listSourceFiles(dir).map(path => [path, readFileSync(join(dir, path), 'utf-8')]));
+}
+
+/**
+ * List the source files in an embedded directory, sorted like listSourceFiles.
+ */
+export function listEmbeddedSourceFiles(files: EmbeddedSourceFiles): string[] {
+  return Object.keys(files).filter(path => extname(path) in languages).sort();
+}
+
+/**
+ * Files shorter than `startLine` are left out. Throws if that leaves none of the selected
+ * files, rather than returning nothing.
+ */
+function selectSourceFiles(paths: string[], read: (path: string) => string, options: SourceFileOptions): SourceFile[] {
+  const patterns = (options.files ?? []).map(globToRegExp);
+  const nameOnly = (options.files ?? []).map(p => !p.includes('/'));
+  const selected = paths.filter(path => patterns.length === 0 || matchesAny(path, patterns, nameOnly));
+
+  const startLine = Math.max(1, options.startLine ?? 1);
+  let longest: { path: string; lines: number } | undefined;
+  const result = selected.flatMap(path => {
+    const text = read(path);
+    const lines = text.split('\n');
+    if (!longest || lines.length > longest.lines) longest = { path, lines: lines.length };
+    if (startLine > lines.length) return [];
+    const endLine = Math.min(lines.length, options.endLine ?? lines.length);
+    return [{
+      path,
+      language: languages[extname(path)],
+      bytes: Buffer.byteLength(text),
+      totalLines: lines.length,
+      startLine,
+      endLine,
+      content: startLine === 1 && endLine === lines.length ? text : lines.slice(startLine - 1, endLine).join('\n'),
+    }];
+  });
+
+  if (result.length === 0 && longest) {
+    throw new Error(`startLine ${startLine} is past the end of every selected file (the longest, ${longest.path}, has ${longest.lines} lines).`);
+  }
+  return result;
+}
+
+/**
+ * Read the selected source files under `dir`, each trimmed to the requested line range.
+ * Files that end before `startLine` are skipped; throws if all of them do.
+ */
+export function readSourceFiles(dir: string, options: SourceFileOptions = {}): SourceFile[] {
+  return selectSourceFiles(listSourceFiles(dir), path => readFileSync(join(dir, path), 'utf-8'), options);
+}
+
+/**
+ * Same as readSourceFiles, for a directory embedded in the manifest.
+ */
+export function readEmbeddedSourceFiles(files: EmbeddedSourceFiles, options: SourceFileOptions = {}): SourceFile[] {
+  return selectSourceFiles(listEmbeddedSourceFiles(files), path => files[path], options);
+}
@@ -0,0 +1,261 @@
+/**
+ * Offline intent → component suggestions. Combines a curated intent-keyword map with
+ * evidence from the manifest (names, categories, props, valid values, slots, descriptions).
+ */
+
+import { tokenize } from './search.js';
+import { componentAliases } from './utils.js';
+import type { ComponentManifest } from './types.js';
+
+export interface ComponentSuggestion {
+  name: string;
+  pascalName: string;
+  category: string;
+  /** Set when a sub-component fits the intent better than the parent */
+  subComponent?: string;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Words and phrases people use for what a component does. Keys are component or
+ * sub-component names; a sub-component key suggests its parent with that sub-component.
+ */
+export const intentKeywords: Record<string, string[]> = {
+  'button': ['click', 'action', 'submit', 'cta', 'press', 'save', 'cancel', 'call to action'],
+  'button-dropdown': ['split button', 'more actions'],
+  'checkbox': ['check', 'agree', 'consent', 'terms', 'opt in', 'tick'],
+  'radio': ['one of', 'single choice', 'exclusive', 'either'],
+  'switch': ['toggle', 'on off', 'turn on', 'turn off', 'enable', 'disable'],
+  'input': ['type', 'text', 'enter', 'field', 'form field'],
+  'input-search': ['search box', 'search bar', 'search field'],
+  'input-password': ['password'],
+  'input-email': ['email'],
+  'input-currency': ['currency', 'money', 'amount', 'price', 'salary'],
+  'input-contact-number': ['phone', 'mobile', 'contact number'],
+  'textarea': ['paragraph', 'comment', 'notes', 'long text', 'multiline', 'free text'],
+  'select': ['pick', 'choose', 'option', 'dropdown', 'long list'],
+  'select-multiple': ['several', 'multiple', 'many', 'tags'],
+  'select-ladderized': ['nested', 'hierarchy', 'hierarchical', 'drill down', 'cascading'],
+  'date-picker': ['date', 'day', 'birthday', 'deadline', 'due'],
+  'date-range-picker': ['date range', 'start and end', 'period'],
+  'month-year-picker': ['month', 'year'],
+  'time-picker': ['time', 'hour', 'appointment'],
+  'slider': ['range', 'slide', 'volume', 'between min and max'],
+  'file-upload': ['upload', 'attach', 'attachment', 'file', 'document', 'drag and drop', 'dropzone'],
+  'modal': ['dialog', 'popup', 'confirm', 'confirmation', 'overlay', 'blocking'],
+  'sidepanel': ['drawer', 'side panel', 'slide over', 'details panel'],
+  'snackbar': ['toast', 'non blocking', 'temporary', 'success message', 'notify', 'notification', 'saved'],
+  'banner': ['alert', 'announcement', 'warning', 'persistent message', 'notice'],
+  'tooltip': ['hint', 'hover', 'explain', 'help text', 'info icon'],
+  'popper': ['popover', 'floating panel', 'anchored'],
+  'table': ['rows', 'columns', 'grid', 'records', 'sort', 'spreadsheet'],
+  'table-pagination': ['pagination', 'paging', 'pages'],
+  'list': ['menu items', 'items'],
+  'ladderized-list': ['nested list', 'tree'],
+  'dropdown': ['menu', 'actions menu', 'kebab', 'overflow', 'more options', 'context menu'],
+  'tabs': ['tab', 'switch views', 'segments'],
+  'accordion': ['faq', 'expand', 'collapse', 'sections'],
+  'collapsible': ['expand', 'collapse', 'show more', 'hide'],
+  'card': ['container', 'box', 'summary', 'tile'],
+  'stepper': ['wizard', 'steps', 'onboarding', 'multi step'],
+  'progress-bar': ['progress', 'percent', 'completion', 'loading bar'],
+  'avatar': ['profile picture', 'user photo', 'initials', 'person'],
+  'badge': ['count', 'unread', 'indicator'],
+  'chips': ['tag', 'chip', 'filter chip', 'removable'],
+  'lozenge': ['status label', 'pill', 'label'],
+  'status': ['state', 'health', 'status dot'],
+  'empty-state': ['empty', 'no results', 'no data', 'nothing', 'zero state'],
+  'calendar': ['shift', 'roster', 'employee schedule', 'schedule'],
+  'audit-trail': ['history', 'log', 'timeline', 'activity', 'audit'],
+  'sidenav': ['navigation', 'sidebar', 'nav', 'app menu'],
+  'floating-action': ['floating', 'sticky action', 'bulk action'],
+  'filter': ['narrow down', 'refine', 'filter'],
+  'attribute-filter': ['attribute', 'filter by'],
+  'icon': ['glyph', 'symbol'],
+  'logo': ['brand'],
+};
+
+// Evidence weights: curated intent and names first, structural manifest matches after
+const weights = {
+  intent: 5,
+  name: 6,
+  alias: 5,
+  subComponent: 3,
+  category: 2,
+  prop: 2,
+  validValue: 1.5,
+  slot: 1.5,
+  description: 1,
+};
+
+// Words that say nothing about which component is meant
+const stopWords = new Set([
+  'a', 'an', 'the', 'to', 'of', 'in', 'on', 'for', 'from', 'with', 'and', 'or', 'by', 'at', 'as', 'is', 'be',
+  'it', 'its', 'this', 'that', 'their', 'them', 'they', 'some', 'any', 'can', 'should', 'so', 'when', 'into',
+  'let', 'lets', 'user', 'users', 'show', 'display', 'want', 'need', 'use', 'using', 'allow', 'make', 'get', 'have',
+  'i', 'we', 'me', 'my', 'our', 'you', 'your', 'component', 'ui', 'page', 'screen', 'something', 'way',
+]);
+
+/**
+ * Light stemming so "tags"/"tag", "options"/"option" and "choosing"/"choose" meet.
+ */
+function stem(word: string): string {
+  let w = word.toLowerCase();
+  if (w.length > 4) {
+    if (w.endsWith('ies')) w = `${w.slice(0, -3)}y`;
+    else if (w.endsWith('ing') && w.length > 5) w = w.slice(0, -3);
+    else if (w.endsWith('ed') && w.length > 5) w = w.slice(0, -2);
+    else if (/(ch|sh|x|ss)es$/.test(w)) w = w.slice(0, -2);
+    else if (w.endsWith('s') && !w.endsWith('ss')) w = w.slice(0, -1);
+  }
+  return w.length > 4 && w.endsWith('e') ? w.slice(0, -1) : w;
+}
+
+function stems(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Whether `phrase` occurs as a contiguous run of words in `words`.
+ */
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) return false;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((p, j) => words[i + j] === p)) return true;
+  }
+  return false;
+}
+
+interface Candidate {
+  comp: ComponentManifest;
+  score: number;
+  reasons: string[];
+  subComponent?: { name: string; score: number };
+}
+
+/**
+ * Rank components for a free-text UI intent, e.g. "let the user pick several tags from a long list".
+ */
+export function suggestComponents(
+  intent: string,
+  components: ComponentManifest[],
+  limit = 5,
+  aliases: Record<string, string[]> = componentAliases,
+): ComponentSuggestion[] {
+  const words = stems(intent);
+  const keywords = new Set(words.filter(w => !stopWords.has(w) && w.length > 1));
+  if (keywords.size === 0) return [];
+
+  const candidates = new Map<string, Candidate>();
+  const candidate = (comp: ComponentManifest) => {
+    let entry = candidates.get(comp.name);
+    if (!entry) {
+      entry = { comp, score: 0, reasons: [] };
+      candidates.set(comp.name, entry);
+    }
+    return entry;
+  };
+  const add = (comp: ComponentManifest, score: number, reason: string) => {
+    const entry = candidate(comp);
+    entry.score += score;
+    if (!entry.reasons.includes(reason)) entry.reasons.push(reason);
+  };
+  const preferSub = (comp: ComponentManifest, subName: string, score: number) => {
+    const entry = candidate(comp);
+    if (!entry.subComponent || entry.subComponent.score < score) entry.subComponent = { name: subName, score };
+  };
+
+  const byName = new Map(components.map(c => [c.name, c]));
+  const parentOf = new Map<string, ComponentManifest>();
+  for (const comp of components) {
+    for (const sub of comp.subComponents) parentOf.set(sub.name, comp);
+  }
+
+  // Curated intent keywords
+  for (const [target, phrases] of Object.entries(intentKeywords)) {
+    const comp = byName.get(target) ?? parentOf.get(target);
+    if (!comp) continue;
+    for (const phrase of phrases) {
+      const phraseStems = stems(phrase);
+      if (!containsPhrase(words, phraseStems)) continue;
+      const score = weights.intent + (phraseStems.length - 1) * 2;
+      const isSub = target !== comp.name;
+      add(comp, score, `Intent "${phrase}" suggests ${isSub ? `${comp.name} › ${target}` : comp.name}`);
+      if (isSub) preferSub(comp, target, score);
+    }
+  }
+
+  // Alternative names people use for components
+  for (const [alias, targets] of Object.entries(aliases)) {
+    if (!containsPhrase(words, stems(alias))) continue;
+    for (const target of targets) {
+      const comp = byName.get(target);
+      if (comp) add(comp, weights.alias, `"${alias}" is another name for ${comp.name}`);
+    }
+  }
+
+  for (const comp of components) {
+    const nameStems = stems(comp.name);
+    if (containsPhrase(words, nameStems)) {
+      add(comp, weights.name, `Named "${comp.name}"`);
+    }
+
+    if (keywords.has(stem(comp.category))) {
+      add(comp, weights.category, `Category "${comp.category}"`);
+    }
+
+    for (const sub of comp.subComponents) {
+      // Only the words that distinguish the sub-component from its parent ("multiple" in select-multiple)
+      const distinctive = tokenize(sub.name).filter(w => !nameStems.includes(stem(w)) && keywords.has(stem(w)));
+      if (distinctive.length > 0) {
+        add(comp, weights.subComponent * distinctive.length, `Sub-component Spr${sub.pascalName} matches "${distinctive.join(' ')}"`);
+        preferSub(comp, sub.name, weights.subComponent * distinctive.length);
+      }
+    }
+
+    // Each intent word counts once per evidence type, from the first prop or slot that has it
+    const seen = new Set<string>();
+    const once = (kind: string, word: string) => {
+      const key = `${kind}:${word}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    };
+
+    for (const prop of comp.props) {
+      for (const word of stems(prop.name)) {
+        if (keywords.has(word) && once('prop', word)) add(comp, weights.prop, `Prop "${prop.name}"`);
+      }
+      for (const value of prop.validValues ?? []) {
+        for (const word of stems(value)) {
+          if (keywords.has(word) && once('value', word)) add(comp, weights.validValue, `Prop "${prop.name}" accepts "${value}"`);
+        }
+      }
+      if (prop.description) {
+        for (const word of new Set(tokenize(prop.description))) {
+          if (keywords.has(stem(word)) && once('description', stem(word))) add(comp, weights.description, `Prop "${prop.name}" description mentions "${word}"`);
+        }
+      }
+    }
+
+    for (const slot of comp.slots) {
+      for (const word of stems(slot.name)) {
+        if (keywords.has(word) && once('slot', word)) add(comp, weights.slot, `Slot "${slot.name}"`);
+      }
+    }
+  }
+
+  return [...candidates.values()]
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score || a.comp.name.localeCompare(b.comp.name))
+    .slice(0, limit)
+    .map(c => ({
+      name: c.comp.name,
+      pascalName: c.comp.pascalName,
+      category: c.comp.category,
+      ...(c.subComponent && { subComponent: c.subComponent.name }),
+      score: Math.round(c.score * 100) / 100,
+      reasons: c.reasons,
+    }));
+}
@@ -0,0 +1,57 @@
+/**
+ * Parses a Vue SFC or a bare template snippet into its template AST.
+ */
+
+import { parse as parseSfc, type SFCParseResult } from '@vue/compiler-sfc';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface TemplateProp {
+  type: number;
+  name: string;
+  value?: { content: string };
+  arg?: { content: string; isStatic?: boolean };
+  exp?: { content: string };
+  loc: { start: SourcePosition };
+}
+
+export interface TemplateNode {
+  type: number;
+  tag?: string;
+  props?: TemplateProp[];
+  children?: TemplateNode[];
+  loc: { start: SourcePosition; source: string };
+}
+
+// AST node and prop type constants from @vue/compiler-core
+export const ELEMENT = 1;
+export const ATTRIBUTE = 6;
+export const DIRECTIVE = 7;
+
+const TEMPLATE_WRAPPER = '<template>';
+
+export interface ParsedTemplate extends SFCParseResult {
+  ast?: TemplateNode;
+  /** Map a position in the AST or a parse error back to the original source. */
+  toOriginal(pos: SourcePosition): SourcePosition;
+}
+
+/**
+ * Parse `source` as an SFC. Bare template snippets have no <template>, <script> or
+ * <script setup> block, so they are wrapped in one on the same line; `toOriginal`
+ * undoes the column shift that adds to the first line.
+ */
+export function parseTemplate(source: string): ParsedTemplate {
+  let result = parseSfc(source);
+  const wrapped = !result.descriptor.template && !result.descriptor.script && !result.descriptor.scriptSetup;
+  if (wrapped) result = parseSfc(`${TEMPLATE_WRAPPER}${source}</template>`);
+
+  return {
+    ...result,
+    ast: result.descriptor.template?.ast as TemplateNode | undefined,
+    toOriginal: pos => (wrapped && pos.line === 1 ? { line: 1, column: pos.column - TEMPLATE_WRAPPER.length } : pos),
+  };
+}
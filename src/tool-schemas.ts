@@ -0,0 +1,282 @@
+/**
+ * Tool definitions: one zod schema per tool generates the advertised `inputSchema`
+ * and validates the arguments of every call. Schemas are strict, so a misspelled
+ * argument is reported instead of silently ignored.
+ */
+
+import { z } from 'zod';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { outputFormats } from './markdown.js';
+
+export const componentDetailFields = ['summary', 'props', 'emits', 'slots', 'types', 'composables', 'examples', 'usageExample'] as const;
+export type ComponentDetailField = typeof componentDetailFields[number];
+
+export const tokenTypes = ['colors', 'spacing', 'radius', 'maxWidth', 'utilities', 'all'] as const;
+
+// ── Shared fields ─────────────────────────────────────────────────────
+
+/**
+ * Enum error messages that list the accepted values.
+ */
+function enumError(label: string, values: readonly string[]) {
+  return (issue: { input?: unknown }) =>
+    issue.input === undefined
+      ? `${label} is required. Use one of: ${values.join(', ')}`
+      : `Invalid ${label} "${String(issue.input)}". Use one of: ${values.join(', ')}`;
+}
+
+const componentName = z
+  .string()
+  .min(1)
+  .describe('The component name (e.g., "button", "input", "modal"). Common aliases such as "dialog" or "toast" are resolved.');
+
+const format = z
+  .enum(outputFormats, { error: enumError('format', outputFormats) })
+  .optional()
+  .describe('Response format: "json" (default) or "markdown" for tables and fenced code, which is shorter and easier to read');
+
+// Every manifest-backed tool accepts an optional version...
+const versioned = {
+  version: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Optional design-system-next version or range (e.g., "2.26.14", "^2.20.0"). Defaults to the version used by the current project. See list_versions.'),
+  format,
+};
+
+// ...and every tool can answer in markdown
+const unversioned = { format };
+
+// ── Tools ─────────────────────────────────────────────────────────────
+
+export const toolDefinitions = {
+  list_components: {
+    description: 'List all available components in the Sprout Design System. Returns compact overview with names, categories, slot counts, and sub-component counts.',
+    schema: z.strictObject({
+      category: z.string().optional().describe('Optional category to filter by: "form", "layout", "data", "feedback", "navigation", "filter", "utility"'),
+      ...versioned,
+    }),
+  },
+  get_component: {
+    description: 'Get structured documentation for a component: props (with types, defaults, valid values, descriptions), emits, slots (with scoped props), types, composables, sub-components, real usage examples from the design system\'s docs, demos and tests (file and line), and a generated usage example. Does NOT include raw template source — use get_component_source if you need that.',
+    schema: z.strictObject({
+      name: componentName,
+      fields: z
+        .array(z.enum(componentDetailFields, { error: enumError('field', componentDetailFields) }))
+        .optional()
+        .describe('Only return these sections (e.g., ["props", "slots"]). Defaults to all of them. Sub-components are narrowed to the same props/emits/slots selection.'),
+      includeSubComponents: z.boolean().optional().describe('Include sub-components (default true)'),
+      compact: z.boolean().optional().describe('Drop the docs summary, prop descriptions and validator source, and return type names instead of full type definitions'),
+      ...versioned,
+    }),
+  },
+  get_component_docs: {
+    description: 'Get the human-written documentation for a component, harvested from the design system\'s docs pages and README files: a summary and sections such as when to use it, do\'s and don\'ts, and accessibility notes. Use it alongside get_component, which only has the API.',
+    schema: z.strictObject({
+      name: componentName,
+      section: z.string().min(1).optional().describe('Only return sections whose heading contains this text (e.g., "accessibility", "when to use")'),
+      ...versioned,
+    }),
+  },
+  get_component_dependencies: {
+    description: 'Get which Sprout components a component renders in its templates (including its sub-components\' templates), and which components render it. Use it to find what an upgrade or change to a component affects, or what a component is built from.',
+    schema: z.strictObject({
+      name: componentName,
+      ...versioned,
+    }),
+  },
+  search_components: {
+    description: 'Ranked, typo-tolerant search across component names, sub-components, categories, prop names, slot names, and prop descriptions. Each result has a score and lists which fields matched.',
+    schema: z.strictObject({
+      query: z.string().min(1).describe('Search query; multiple words are matched individually (e.g., "date picker", "chekbox", "upload file")'),
+      ...versioned,
+    }),
+  },
+  search_by_prop: {
+    description: 'Search for components that have a specific prop name or prop type. Also searches sub-component props.',
+    schema: z
+      .strictObject({
+        propName: z.string().optional().describe('Prop name to search for (e.g., "disabled", "modelValue")'),
+        propType: z.string().optional().describe('Prop type to search for (e.g., "boolean", "string")'),
+        ...versioned,
+      })
+      .refine(args => !!args.propName || !!args.propType, {
+        message: 'At least one of propName or propType is required.',
+        path: ['propName'],
+      }),
+  },
+  get_component_source: {
+    description: 'Get the raw source files (.ts, .vue) for a component, including sub-components. Each file is returned as its own content item with its path, language and byte size. Use this only when the structured get_component output is insufficient, and narrow it with files/startLine/endLine.',
+    schema: z
+      .strictObject({
+        name: componentName,
+        files: z
+          .array(z.string().min(1))
+          .optional()
+          .describe('Optional glob patterns relative to the component directory (e.g., ["*.vue"], ["select-multiple/**"]). Patterns without "/" match file names at any depth.'),
+        startLine: z.number().int().min(1).optional().describe('Optional first line to return from each file (1-based)'),
+        endLine: z.number().int().min(1).optional().describe('Optional last line to return from each file (inclusive)'),
+        ...versioned,
+      })
+      .refine(args => args.startLine === undefined || args.endLine === undefined || args.endLine >= args.startLine, {
+        message: 'endLine must be greater than or equal to startLine.',
+        path: ['endLine'],
+      }),
+  },
+  get_tokens: {
+    description: 'Get design tokens (colors, spacing, border-radius, etc.)',
+    schema: z.strictObject({
+      type: z.enum(tokenTypes, { error: enumError('token type', tokenTypes) }).describe('Type of tokens to retrieve'),
+      ...versioned,
+    }),
+  },
+  list_assets: {
+    description: 'List available image assets and empty state illustrations in the design system',
+    schema: z.strictObject({ ...versioned }),
+  },
+  get_store: {
+    description: 'Get Pinia store source code from the design system. Omit name to list all stores.',
+    schema: z.strictObject({
+      name: z.string().optional().describe('Optional store name (e.g., "useSnackbarStore"). Omit to list all stores.'),
+      ...versioned,
+    }),
+  },
+  validate_usage: {
+    description: 'Validate <Spr*> usage in a Vue SFC or template snippet. Reports unknown components, unknown props, values outside validValues, missing required props, unknown slot names, and event listeners that are not emitted, each with line and column.',
+    schema: z.strictObject({
+      source: z.string().min(1).describe('A full .vue file or a bare template snippet (e.g., \'<SprButton tone="success">Save</SprButton>\')'),
+      ...versioned,
+    }),
+  },
+  suggest_component: {
+    description: 'Suggest Sprout components for a UI intent described in plain words (e.g., "let the user pick several tags from a long list", "show a non-blocking success message"). Returns ranked candidates, with a better-fitting sub-component where there is one, and the reasons each was suggested.',
+    schema: z.strictObject({
+      intent: z.string().min(1).describe('What the UI should do, in plain words'),
+      limit: z.number().int().min(1).max(20).optional().describe('Maximum number of candidates to return (default 5)'),
+      ...versioned,
+    }),
+  },
+  get_type_declarations: {
+    description: 'Generate a .d.ts that augments vue\'s GlobalComponents so Volar type-checks <Spr*> usage: props typed from the manifest (valid values as literal unions, required flags), emits as on* handlers, and slots with their scope props. Save the content to a file included by tsconfig.',
+    schema: z.strictObject({
+      components: z
+        .array(z.string().min(1))
+        .optional()
+        .describe('Optional component names to limit the declarations to (e.g., ["button", "select"]). Sub-components are always included with their parent. Defaults to all components.'),
+      ...versioned,
+    }),
+  },
+  get_diagnostics: {
+    description: 'Report where the manifest is incomplete: parser failures recorded when it was generated (component, sub-component, file, parser and message), and whether the bundled manifest matches the installed design-system-next. Check it before telling the user a component has no props, emits or slots, and warn them when its data is incomplete.',
+    schema: z.strictObject({
+      component: z.string().min(1).optional().describe('Only report failures for this component and its sub-components (e.g., "select")'),
+      ...versioned,
+    }),
+  },
+  list_versions: {
+    description: 'List the design-system-next versions this server has manifests for, and which one is used when a tool call omits "version".',
+    schema: z.strictObject({ ...unversioned }),
+  },
+  diff_versions: {
+    description: 'Compare the component API of two design-system-next versions before upgrading. Reports added/removed components, sub-components, props, emits, slots and types, plus prop type/default changes, narrowed validValues and newly required props, each marked breaking or non-breaking.',
+    schema: z.strictObject({
+      from: z.string().min(1).describe('Version or range to upgrade from (e.g., "2.24.3"). See list_versions.'),
+      to: z.string().min(1).optional().describe('Version or range to upgrade to. Defaults to the default version.'),
+      component: z.string().optional().describe('Optional component name to limit the diff to (e.g., "select")'),
+      breakingOnly: z.boolean().optional().describe('Only return breaking changes'),
+      ...unversioned,
+    }),
+  },
+};
+
+export type ToolName = keyof typeof toolDefinitions;
+export type ToolArguments<T extends ToolName> = z.infer<(typeof toolDefinitions)[T]['schema']>;
+
+/**
+ * The tools/list payload, with JSON Schemas generated from the zod definitions.
+ */
+export function listTools(): Tool[] {
+  return Object.entries(toolDefinitions).map(([name, { description, schema }]) => {
+    const { $schema, ...inputSchema } = z.toJSONSchema(schema, { io: 'input' });
+    return { name, description, inputSchema: inputSchema as Tool['inputSchema'] };
+  });
+}
+
+// ── Validation ────────────────────────────────────────────────────────
+
+export type ToolErrorCode =
+  | 'unknown_tool'
+  | 'invalid_arguments'
+  /** `version` (or diff_versions' `from`/`to`) names a version with no loaded manifest */
+  | 'version_not_available'
+  | 'component_not_found'
+  /** A store, docs section or source file the arguments name doesn't exist */
+  | 'not_found'
+  /** The component exists but its source can't be read for this version */
+  | 'source_unavailable';
+
+export interface ToolError {
+  code: ToolErrorCode;
+  message: string;
+  /** Offending argument paths (e.g., "name", "fields.1") and what's wrong with each */
+  fields: Array<{ field: string; message: string }>;
+}
+
+export type ParsedToolCall =
+  | { ok: true; name: ToolName; args: ToolArguments<ToolName> }
+  | { ok: false; error: ToolError };
+
+function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(toolDefinitions, name);
+}
+
+/**
+ * Validate a tools/call request against the tool's schema.
+ */
+export function parseToolCall(name: string, args: Record<string, unknown> | undefined): ParsedToolCall {
+  if (!isToolName(name)) {
+    return { ok: false, error: { code: 'unknown_tool', message: `Unknown tool: ${name}`, fields: [] } };
+  }
+
+  const result = toolDefinitions[name].schema.safeParse(args ?? {});
+  if (result.success) {
+    return { ok: true, name, args: result.data };
+  }
+
+  const accepted = Object.keys(toolDefinitions[name].schema.shape).join(', ');
+  const fields = result.error.issues.flatMap(issue =>
+    issue.code === 'unrecognized_keys'
+      ? issue.keys.map(key => ({
+        field: [...issue.path.map(String), key].join('.'),
+        message: `Unknown argument "${key}". Accepted arguments: ${accepted}`,
+      }))
+      : [{ field: issue.path.map(String).join('.'), message: issue.message }],
+  );
+  return {
+    ok: false,
+    error: {
+      code: 'invalid_arguments',
+      message: `Invalid arguments for ${name}: ${fields.map(f => (f.field ? `${f.field}: ${f.message}` : f.message)).join('; ')}`,
+      fields,
+    },
+  };
+}
+
+/**
+ * An error for an argument that passed validation but names something the manifest
+ * doesn't have, such as an unknown component. `field` is the offending argument, if any.
+ */
+export function argumentError(code: ToolErrorCode, message: string, field?: string): ToolError {
+  return { code, message, fields: field ? [{ field, message }] : [] };
+}
+
+/**
+ * The isError tool result for a failed call.
+ */
+export function toolErrorResult(error: ToolError) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify({ error }, null, 2) }],
+    isError: true,
+  };
+}
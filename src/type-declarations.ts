@@ -0,0 +1,278 @@
+/**
+ * Generates a `.d.ts` that augments vue's `GlobalComponents` from the manifest, so
+ * Volar can type-check `<Spr*>` props, event handlers and slots.
+ */
+
+import type { ComponentManifest, EmitDefinition, PropDefinition, SlotDefinition } from './types.js';
+
+export interface TypeDeclarations {
+  designSystemVersion: string;
+  /** Suggested file name for the declarations */
+  fileName: string;
+  /** Global component names that were declared (e.g. "SprButton", "SprSelectMultiple") */
+  components: string[];
+  content: string;
+}
+
+export const typeDeclarationsFileName = 'sprout-components.d.ts';
+
+// ── Type expressions ──────────────────────────────────────────────────
+
+// Names every .d.ts can use without declaring them
+const globalTypeNames = new Set([
+  'string', 'number', 'boolean', 'null', 'undefined', 'unknown', 'any', 'void', 'never', 'object', 'symbol', 'bigint',
+  'true', 'false', 'keyof', 'readonly', 'extends', 'infer', 'in',
+  'Record', 'Partial', 'Required', 'Readonly', 'Pick', 'Omit', 'Exclude', 'Extract', 'NonNullable', 'ReturnType',
+  'Array', 'ReadonlyArray', 'Map', 'Set', 'Promise', 'Function', 'Date', 'RegExp',
+  'File', 'FileList', 'Blob', 'Event', 'MouseEvent', 'KeyboardEvent', 'FocusEvent', 'InputEvent', 'DragEvent',
+  'PointerEvent', 'TouchEvent', 'WheelEvent', 'Element', 'HTMLElement', 'HTMLInputElement',
+]);
+
+// Vue runtime constructors used as `type: String` or `type: [String, Number]`
+const constructorTypes: Record<string, string> = {
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  Array: 'unknown[]',
+  Object: 'Record<string, unknown>',
+  Function: '(...args: any[]) => any',
+  Date: 'Date',
+};
+
+function normalize(type: string): string {
+  return type.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether every bracket in `type` is closed. The props parser cuts `PropType<...>`
+ * at the first `>`, which leaves types like "Record<string, unknown".
+ */
+function isBalanced(type: string): boolean {
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{', '>': '<' };
+  const stack: string[] = [];
+  // Arrows aren't brackets
+  for (const char of type.replace(/=>/g, '')) {
+    if ('([{<'.includes(char)) stack.push(char);
+    else if (char in pairs && stack.pop() !== pairs[char]) return false;
+  }
+  return stack.length === 0;
+}
+
+/**
+ * Type names referenced by a type expression or declaration, or null if it refers
+ * to a value (`typeof X`), which a declaration file can't see.
+ */
+function referencedNames(text: string): string[] | null {
+  const withoutStrings = text.replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`\\]|\\.)*`/g, '""');
+  if (/\btypeof\b/.test(withoutStrings)) return null;
+  const names: string[] = [];
+  // Property keys and parameter names are followed by ":" or "?:"
+  for (const match of withoutStrings.matchAll(/(?<![\w$.])[A-Za-z_$][\w$]*(?![\w$]*\s*\??\s*:)/g)) {
+    names.push(match[0]);
+  }
+  return names;
+}
+
+/**
+ * The manifest's own type and interface declarations that can be copied into a
+ * declaration file: unambiguous names whose references all resolve.
+ */
+function declarableTypes(components: ComponentManifest[]): Map<string, { definition: string; references: string[] }> {
+  const candidates = new Map<string, { definition: string; references: string[] }>();
+  const ambiguous = new Set<string>();
+
+  for (const comp of components) {
+    for (const type of comp.types) {
+      if (type.kind === 'const-array') continue;
+      const definition = type.definition.replace(/\r\n/g, '\n');
+      const existing = candidates.get(type.name);
+      if (existing && existing.definition !== definition) ambiguous.add(type.name);
+      const references = referencedNames(definition.replace(/^(export\s+)?(type|interface)\s+[\w$]+/, ''));
+      if (references) candidates.set(type.name, { definition, references });
+      else ambiguous.add(type.name);
+    }
+  }
+  for (const name of ambiguous) candidates.delete(name);
+
+  // Drop declarations that reference something undeclarable until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [name, { references }] of candidates) {
+      if (references.some(ref => !globalTypeNames.has(ref) && !candidates.has(ref))) {
+        candidates.delete(name);
+        changed = true;
+      }
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Convert a manifest type (a TS type expression or Vue runtime constructors) into a
+ * type usable in a declaration file. Anything that can't be resolved becomes `unknown`.
+ * Names of copied manifest declarations are added to `used`.
+ */
+export function toTypeScriptType(
+  type: string | undefined,
+  declarable: ReadonlyMap<string, { references: string[] }> = new Map(),
+  used: Set<string> = new Set(),
+): string {
+  if (!type) return 'unknown';
+  const text = normalize(type);
+
+  const constructors = text.replace(/^\[(.*)\]$/, '$1').split(',').map(t => t.trim());
+  if (constructors.every(t => t in constructorTypes)) {
+    return [...new Set(constructors.map(t => constructorTypes[t]))].join(' | ');
+  }
+
+  if (!isBalanced(text)) return 'unknown';
+  const references = referencedNames(text);
+  if (!references || references.some(ref => !globalTypeNames.has(ref) && !declarable.has(ref))) return 'unknown';
+
+  // Pull in the copied declarations this type needs, transitively
+  const pending = references.filter(ref => declarable.has(ref));
+  while (pending.length > 0) {
+    const ref = pending.pop()!;
+    if (used.has(ref)) continue;
+    used.add(ref);
+    pending.push(...declarable.get(ref)!.references.filter(r => declarable.has(r)));
+  }
+  return text;
+}
+
+// ── Members ───────────────────────────────────────────────────────────
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+}
+
+function docComment(lines: string[], indent: string): string[] {
+  const text = lines.filter(Boolean).map(line => line.replace(/\*\//g, '*\\/'));
+  if (text.length === 0) return [];
+  if (text.length === 1) return [`${indent}/** ${text[0]} */`];
+  return [`${indent}/**`, ...text.map(line => `${indent} * ${line}`), `${indent} */`];
+}
+
+/**
+ * `validValues` as literals. Array props (by type, or by an array default such as
+ * `() => ['click']`) validate each element, so they become arrays of the union.
+ */
+function literalUnion(prop: PropDefinition): string {
+  const numeric = /\bnumber\b/i.test(prop.type) && prop.validValues!.every(v => v.trim() !== '' && !Number.isNaN(Number(v)));
+  const union = prop.validValues!.map(v => (numeric ? String(Number(v)) : `'${v.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`)).join(' | ');
+  const isArray = /\[\]$|^Array\b/.test(normalize(prop.type)) || /^(\(\)\s*=>\s*)?\[/.test(normalize(prop.default ?? ''));
+  return isArray ? `Array<${union}>` : union;
+}
+
+/**
+ * The listener prop Vue derives from an emit name: "update:modelValue" → "onUpdate:modelValue",
+ * "get-selected-option" → "onGetSelectedOption".
+ */
+export function eventHandlerName(emit: string): string {
+  const camel = emit.replace(/-(\w)/g, (_, char: string) => char.toUpperCase());
+  return `on${camel.charAt(0).toUpperCase()}${camel.slice(1)}`;
+}
+
+function propsInterface(
+  name: string,
+  props: PropDefinition[],
+  emits: EmitDefinition[],
+  declarable: ReadonlyMap<string, { references: string[] }>,
+  used: Set<string>,
+): string[] {
+  const lines = [`export interface ${name} {`];
+  for (const prop of props) {
+    const type = prop.validValues?.length ? literalUnion(prop) : toTypeScriptType(prop.type, declarable, used);
+    lines.push(
+      ...docComment([prop.description ?? '', prop.default !== undefined ? `@default ${normalize(prop.default)}` : ''], '  '),
+      `  ${propertyKey(prop.name)}${prop.required ? '' : '?'}: ${type};`,
+    );
+  }
+  for (const emit of emits) {
+    const handler = emit.payloadType ? `(value: ${toTypeScriptType(emit.payloadType, declarable, used)}) => void` : '() => void';
+    lines.push(...docComment([`Emitted as "${emit.name}"`], '  '), `  ${propertyKey(eventHandlerName(emit.name))}?: ${handler};`);
+  }
+  lines.push('}');
+  return lines;
+}
+
+function slotsInterface(name: string, slots: SlotDefinition[]): string[] {
+  const lines = [`export interface ${name} {`];
+  let dynamic = false;
+  for (const slot of slots) {
+    // Slot names bound at runtime, e.g. "[column.field]"
+    if (slot.name.startsWith('[')) {
+      dynamic = true;
+      continue;
+    }
+    const scope = slot.scopeProps?.length
+      ? `props: { ${slot.scopeProps.map(p => `${propertyKey(p)}: unknown;`).join(' ')} }`
+      : slot.scoped ? 'props: Record<string, unknown>' : '';
+    lines.push(`  ${propertyKey(slot.name)}?: (${scope}) => VNode[];`);
+  }
+  if (dynamic) lines.push('  [name: string]: ((props: any) => VNode[]) | undefined;');
+  lines.push('}');
+  return lines;
+}
+
+// ── Declaration file ──────────────────────────────────────────────────
+
+/**
+ * Build the declaration file for `components` (defaults to every component in the manifest).
+ * Sub-components are declared alongside their parent.
+ */
+export function generateTypeDeclarations(
+  designSystemVersion: string,
+  components: ComponentManifest[],
+  allComponents: ComponentManifest[] = components,
+): TypeDeclarations {
+  const declarable = declarableTypes(allComponents);
+  const used = new Set<string>();
+  const sections: string[][] = [];
+  const globals: string[] = [];
+
+  for (const comp of components) {
+    for (const entry of [comp, ...comp.subComponents]) {
+      // Directories that aren't components (e.g. ".tldr") have no usable tag name
+      if (!/^[A-Z][A-Za-z0-9]*$/.test(entry.pascalName)) continue;
+      const globalName = `Spr${entry.pascalName}`;
+      globals.push(globalName);
+      sections.push(
+        [`// ── ${globalName} ${'─'.repeat(Math.max(3, 66 - globalName.length))}`],
+        propsInterface(`${globalName}Props`, entry.props, entry.emits, declarable, used),
+        slotsInterface(`${globalName}Slots`, entry.slots),
+      );
+    }
+  }
+
+  const referenced = [...declarable].filter(([name]) => used.has(name)).map(([, { definition }]) => definition);
+
+  const content = [
+    '/**',
+    ` * Global component types for the Sprout Design System (design-system-next ${designSystemVersion}).`,
+    ' * Generated from the component manifest by mcp-design-system-next; do not edit by hand.',
+    ' */',
+    '',
+    "import type { AllowedComponentProps, ComponentCustomProps, VNode, VNodeProps } from 'vue';",
+    '',
+    ...(referenced.length > 0 ? [`// ── Referenced types ${'─'.repeat(50)}`, '', referenced.join('\n\n'), ''] : []),
+    sections.map(lines => lines.join('\n')).join('\n\n'),
+    '',
+    "declare module 'vue' {",
+    '  export interface GlobalComponents {',
+    ...globals.map(name =>
+      [
+        `    ${name}: new () => {`,
+        `      $props: ${name}Props & AllowedComponentProps & ComponentCustomProps & VNodeProps;`,
+        `      $slots: ${name}Slots;`,
+        '    };',
+      ].join('\n'),
+    ),
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+  return { designSystemVersion, fileName: typeDeclarationsFileName, components: globals, content };
+}
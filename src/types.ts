@@ -8,12 +8,15 @@ export type { SlotDefinition } from './parsers/slot-parser.js';
 export type { ComposableInfo } from './parsers/composable-parser.js';
 export type { TypeDefinition } from './parsers/type-parser.js';
 export type { DesignTokens } from './parsers/token-parser.js';
+export type { TemplateDependencies } from './parsers/dependency-parser.js';
 
 import type { PropDefinition, EmitDefinition } from './parsers/props-parser.js';
 import type { SlotDefinition } from './parsers/slot-parser.js';
 import type { ComposableInfo } from './parsers/composable-parser.js';
 import type { TypeDefinition } from './parsers/type-parser.js';
 import type { DesignTokens } from './parsers/token-parser.js';
+import type { TemplateDependencies } from './parsers/dependency-parser.js';
+import type { EmbeddedSourceFiles } from './source-files.js';
 
 // ── Composite manifest types ──────────────────────────────────────────
 
@@ -23,18 +26,57 @@ export interface SubComponentManifest {
   props: PropDefinition[];
   emits: EmitDefinition[];
   slots: SlotDefinition[];
+  /** Absent in manifests generated before dependencies were recorded */
+  dependencies?: TemplateDependencies;
+}
+
+export interface ComponentDocSection {
+  heading: string;
+  /** Markdown below the heading */
+  content: string;
+  /** The page it came from, relative to the design system root */
+  file: string;
+}
+
+/**
+ * Human-written documentation harvested from the design system's docs pages and the
+ * markdown files next to the component.
+ */
+export interface ComponentDocs {
+  /** Pages the docs came from, relative to the design system root */
+  files: string[];
+  summary?: string;
+  sections: ComponentDocSection[];
+}
+
+/**
+ * A real <Spr*> usage found in the design system's docs, demos or test specs.
+ */
+export interface UsageExample {
+  /** The element as written, dedented */
+  code: string;
+  /** Relative to the design system root */
+  file: string;
+  line: number;
+  kind: 'docs' | 'demo' | 'spec';
 }
 
 export interface ComponentManifest {
   name: string;
   pascalName: string;
   category: string;
+  /** Absent when no docs pages were found */
+  docs?: ComponentDocs;
+  /** Best first; absent when no usages were found */
+  examples?: UsageExample[];
   props: PropDefinition[];
   emits: EmitDefinition[];
   slots: SlotDefinition[];
   types: TypeDefinition[];
   composables: ComposableInfo[];
   subComponents: SubComponentManifest[];
+  /** What the component's own template renders; sub-components record their own */
+  dependencies?: TemplateDependencies;
 }
 
 export interface StoreManifest {
@@ -43,6 +85,61 @@ export interface StoreManifest {
   source: string;
 }
 
+/**
+ * Component sources embedded by `generate-manifest --embed-sources`, so
+ * get_component_source works without design-system-next installed.
+ */
+export interface ManifestSources {
+  /** Component directory name → its source files (inline mode) */
+  components?: Record<string, EmbeddedSourceFiles>;
+  /** Gzipped JSON next to the manifest holding the same `components` map (sidecar mode) */
+  sidecar?: string;
+}
+
+/**
+ * Content hashes of the generator inputs, used to skip re-parsing unchanged components.
+ */
+export interface ManifestHashes {
+  /** Hash of the parsers; when it changes, every component is re-parsed */
+  generator: string;
+  /** Hash of the token scripts in src/assets/scripts */
+  tokens: string;
+  /** Component directory name → hash of its .ts and .vue files */
+  components: Record<string, string>;
+}
+
+/**
+ * Where the generator read the design system from.
+ */
+export interface ManifestSource {
+  /** Name from the design system's package.json (e.g. a fork's name) */
+  packageName: string;
+  /** The configured checkout or directory, as given; absent when resolved from the installed package */
+  root?: string;
+  /** Relative to the root, e.g. "src/components" */
+  componentsDir: string;
+  assetsDir: string;
+  storesDir: string;
+  /** Where docs pages were looked for; absent in manifests generated before docs were harvested */
+  docsDir?: string;
+  /** Checked-out commit, when the root is a git checkout */
+  git?: { commit: string; branch?: string };
+}
+
+/**
+ * A parser failure recorded by the generator. The affected section of the component
+ * (e.g. its props) is empty or incomplete in the manifest.
+ */
+export interface ManifestDiagnostic {
+  component: string;
+  /** Set when the failure is in a sub-component */
+  subComponent?: string;
+  /** Relative to the components directory, e.g. "select/select.ts" */
+  file: string;
+  parser: 'props' | 'types' | 'slots' | 'composable' | 'dependencies';
+  message: string;
+}
+
 export interface Manifest {
   version: string;
   generatedAt: string;
@@ -54,4 +151,9 @@ export interface Manifest {
     images: { name: string; path: string; type: string }[];
     emptyStates: { name: string; path: string; type: string }[];
   };
+  source?: ManifestSource;
+  /** Parser failures; absent in manifests generated before diagnostics were recorded */
+  diagnostics?: ManifestDiagnostic[];
+  sources?: ManifestSources;
+  hashes?: ManifestHashes;
 }
@@ -0,0 +1,237 @@
+/**
+ * Real <Spr*> usages for get_component, collected from the design system's docs pages,
+ * demo and playground files and test specs, and ranked per component.
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative, extname, basename, sep } from 'path';
+import { parseTemplate, ELEMENT, type SourcePosition, type TemplateNode } from './template-ast.js';
+import { toPascalCase } from './utils.js';
+import type { ComponentManifest, UsageExample } from './types.js';
+
+export const maxExamplesPerComponent = 3;
+
+// Longer usages are whole pages rather than examples
+const maxExampleLines = 30;
+
+const demoDirectories = new Set(['demo', 'demos', 'example', 'examples', 'playground', 'playgrounds']);
+const specFile = /\.(spec|test)\.[cm]?[jt]sx?$/;
+const skippedDirectories = new Set(['node_modules', 'dist']);
+
+// ── Finding example files ─────────────────────────────────────────────
+
+export interface ExampleFile {
+  path: string;
+  kind: UsageExample['kind'];
+}
+
+function exampleKind(path: string, docsPath: string, inDemoDirectory: boolean): ExampleFile['kind'] | undefined {
+  const ext = extname(path);
+  if (specFile.test(path)) return 'spec';
+  if (ext !== '.vue' && ext !== '.md') return undefined;
+  if (path.startsWith(docsPath + sep)) return 'docs';
+  return inDemoDirectory ? 'demo' : undefined;
+}
+
+/**
+ * Files under `root` that may hold usages: .md and .vue files in the docs directory and in
+ * demo, example and playground directories, and test specs anywhere. Sorted by path.
+ */
+export function findExampleFiles(root: string, docsPath: string): ExampleFile[] {
+  const files: ExampleFile[] = [];
+  const visit = (dir: string, inDemoDirectory: boolean) => {
+    for (const entry of readdirSync(dir)) {
+      if (entry.startsWith('.') || skippedDirectories.has(entry)) continue;
+      const path = join(dir, entry);
+      if (statSync(path).isDirectory()) {
+        visit(path, inDemoDirectory || demoDirectories.has(entry.toLowerCase()));
+        continue;
+      }
+      const kind = exampleKind(path, docsPath, inDemoDirectory);
+      if (kind) files.push({ path, kind });
+    }
+  };
+  visit(root, false);
+  return files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+// ── Extracting usages ─────────────────────────────────────────────────
+
+export interface FoundUsage {
+  /** PascalCase tag, e.g. "SprButton" for both <SprButton> and <spr-button> */
+  tag: string;
+  code: string;
+  /** 1-based line in the file */
+  line: number;
+  /** Distinct attributes and directives on the element */
+  attributes: number;
+}
+
+/**
+ * Strip the indentation the element's first line had in its file from the lines after it.
+ */
+function dedent(source: string, column: number): string {
+  const indent = column - 1;
+  return source
+    .split('\n')
+    .map((line, i) => (i === 0 ? line : line.replace(new RegExp(`^[ \\t]{0,${indent}}`), '')))
+    .join('\n');
+}
+
+/**
+ * `toOriginal` maps AST positions back to the source (see parseTemplate).
+ */
+function collectUsages(
+  node: TemplateNode,
+  lineOffset: number,
+  toOriginal: (pos: SourcePosition) => SourcePosition,
+  usages: FoundUsage[],
+): void {
+  if (node.type === ELEMENT && node.tag) {
+    const tag = node.tag.includes('-') ? toPascalCase(node.tag) : node.tag;
+    if (/^Spr[A-Z]/.test(tag)) {
+      const { line, column } = toOriginal(node.loc.start);
+      const attributes = new Set((node.props ?? []).map(p => (p.arg ? `${p.name}:${p.arg.content}` : p.name)));
+      usages.push({
+        tag,
+        code: dedent(node.loc.source, column),
+        line: lineOffset + line,
+        attributes: attributes.size,
+      });
+    }
+  }
+  for (const child of node.children ?? []) collectUsages(child, lineOffset, toOriginal, usages);
+}
+
+/**
+ * <Spr*> elements in an SFC or a bare template snippet that starts at line `lineOffset + 1`.
+ */
+function templateUsages(source: string, lineOffset: number): FoundUsage[] {
+  const { ast, toOriginal } = parseTemplate(source);
+  const usages: FoundUsage[] = [];
+  if (ast) collectUsages(ast, lineOffset, toOriginal, usages);
+  return usages;
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+// Replaces a match with as many blank lines, so line numbers after it don't move
+const blank = (match: string) => match.replace(/[^\n]/g, '');
+
+/**
+ * Usages in a markdown page: fenced vue, html and template blocks, and live demo markup
+ * outside them (as in VitePress pages).
+ */
+function markdownUsages(content: string): FoundUsage[] {
+  const usages: FoundUsage[] = [];
+  const fence = /^([ \t]*)(`{3,}|~{3,})[ \t]*(vue|html|template)?[^\n]*\n([\s\S]*?)^\1\2[ \t]*$/gm;
+  for (const match of content.matchAll(fence)) {
+    if (match[3]) usages.push(...templateUsages(match[4], lineAt(content, match.index)));
+  }
+  const markup = content
+    .replace(fence, blank)
+    .replace(/^---\n[\s\S]*?\n---\n/, blank)
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/g, blank);
+  if (/<(spr-|Spr[A-Z])/.test(markup)) usages.push(...templateUsages(markup, 0));
+  return usages;
+}
+
+/**
+ * Usages in a test spec: string and template literals holding <Spr*> markup, such as
+ * `template:` options passed to mount().
+ */
+function specUsages(content: string): FoundUsage[] {
+  const usages: FoundUsage[] = [];
+  // Quoted strings end at the line; a stray apostrophe in a comment just doesn't match
+  const literals = /'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`/g;
+  for (const match of content.matchAll(literals)) {
+    const markup = match[0].slice(1, -1).replace(/\\(['"`\\])/g, '$1');
+    if (!/<(spr-|Spr[A-Z])/.test(markup)) continue;
+    usages.push(...templateUsages(markup, lineAt(content, match.index) - 1));
+  }
+  return usages;
+}
+
+/**
+ * Every <Spr*> element in a file, by file type.
+ */
+export function extractUsages(content: string, path: string): FoundUsage[] {
+  const text = content.replace(/\r\n?/g, '\n');
+  if (specFile.test(path)) return specUsages(text);
+  if (extname(path) === '.md') return markdownUsages(text);
+  return templateUsages(text, 0);
+}
+
+// ── Ranking ───────────────────────────────────────────────────────────
+
+const kindRank: Record<UsageExample['kind'], number> = { docs: 0, demo: 1, spec: 2 };
+
+interface Candidate extends UsageExample {
+  own: boolean;
+  attributes: number;
+}
+
+/**
+ * The top usages of each component, keyed by component name. Usages of a sub-component
+ * (e.g. <SprSelectMultiple>) count for its parent, after the parent's own. Docs come
+ * before demos and specs; then usages that set more attributes, then shorter ones.
+ * Duplicates (e.g. a VitePress demo and its fenced source) are kept once.
+ */
+export function collectUsageExamples(
+  root: string,
+  files: ExampleFile[],
+  components: Array<Pick<ComponentManifest, 'name' | 'pascalName' | 'subComponents'>>,
+  limit = maxExamplesPerComponent,
+): Map<string, UsageExample[]> {
+  const owners = new Map<string, { component: string; own: boolean }>();
+  for (const comp of components) owners.set(`Spr${comp.pascalName}`, { component: comp.name, own: true });
+  for (const comp of components) {
+    for (const sub of comp.subComponents) {
+      const tag = `Spr${sub.pascalName}`;
+      if (!owners.has(tag)) owners.set(tag, { component: comp.name, own: false });
+    }
+  }
+
+  const candidates = new Map<string, Candidate[]>();
+  for (const file of files) {
+    let usages: FoundUsage[];
+    try {
+      usages = extractUsages(readFileSync(file.path, 'utf-8'), basename(file.path));
+    } catch {
+      // Unreadable or unparseable files have nothing to offer
+      continue;
+    }
+    const relativePath = relative(root, file.path).split(sep).join('/');
+    for (const usage of usages) {
+      const owner = owners.get(usage.tag);
+      if (!owner || usage.code.split('\n').length > maxExampleLines) continue;
+      const list = candidates.get(owner.component) ?? [];
+      list.push({ code: usage.code, file: relativePath, line: usage.line, kind: file.kind, own: owner.own, attributes: usage.attributes });
+      candidates.set(owner.component, list);
+    }
+  }
+
+  const examples = new Map<string, UsageExample[]>();
+  for (const [component, list] of candidates) {
+    list.sort(
+      (a, b) =>
+        Number(b.own) - Number(a.own) ||
+        kindRank[a.kind] - kindRank[b.kind] ||
+        b.attributes - a.attributes ||
+        a.code.length - b.code.length,
+    );
+    const seen = new Set<string>();
+    const top: UsageExample[] = [];
+    for (const { own, attributes, ...example } of list) {
+      const key = example.code.replace(/\s+/g, ' ');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      top.push(example);
+      if (top.length === limit) break;
+    }
+    examples.set(component, top);
+  }
+  return examples;
+}
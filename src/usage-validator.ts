@@ -0,0 +1,219 @@
+/**
+ * Validates <Spr*> usage in a Vue SFC or template snippet against the manifest.
+ */
+
+import { parseTemplate, ELEMENT, ATTRIBUTE, DIRECTIVE, type SourcePosition, type TemplateNode } from './template-ast.js';
+import { toPascalCase } from './utils.js';
+import type { ComponentManifest, PropDefinition, SubComponentManifest } from './types.js';
+
+export type UsageProblemKind =
+  | 'parse-error'
+  | 'unknown-component'
+  | 'unknown-prop'
+  | 'invalid-value'
+  | 'missing-required-prop'
+  | 'unknown-slot'
+  | 'unknown-event';
+
+export interface UsageProblem {
+  kind: UsageProblemKind;
+  severity: 'error' | 'warning';
+  message: string;
+  component?: string;
+  line: number;
+  column: number;
+}
+
+// Attributes that are handled by Vue itself or fall through to the root element
+const PASSTHROUGH_ATTRS = new Set(['class', 'style', 'key', 'ref', 'is', 'id', 'name', 'title', 'role', 'tabindex']);
+const PASSTHROUGH_PREFIXES = ['data-', 'aria-'];
+
+type ResolvedComponent = ComponentManifest | SubComponentManifest;
+
+function camelize(name: string): string {
+  return name.replace(/-(\w)/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Build a lookup from registered tag name (e.g. "SprTableActions") to its manifest entry.
+ */
+function buildTagRegistry(components: ComponentManifest[]): Map<string, ResolvedComponent> {
+  const registry = new Map<string, ResolvedComponent>();
+  for (const comp of components) {
+    registry.set(`Spr${comp.pascalName}`, comp);
+  }
+  for (const comp of components) {
+    for (const sub of comp.subComponents) {
+      const tag = `Spr${sub.pascalName}`;
+      if (!registry.has(tag)) registry.set(tag, sub);
+    }
+  }
+  return registry;
+}
+
+function normalizeTag(tag: string): string | null {
+  const pascal = tag.includes('-') ? toPascalCase(tag) : tag;
+  return /^Spr[A-Z]/.test(pascal) ? pascal : null;
+}
+
+function isPassthroughAttr(name: string): boolean {
+  return PASSTHROUGH_ATTRS.has(name) || PASSTHROUGH_PREFIXES.some(prefix => name.startsWith(prefix));
+}
+
+/**
+ * Read a literal string value from a bound expression such as `'small'` or `"small"`.
+ */
+function literalValue(expression: string): string | undefined {
+  const match = expression.trim().match(/^(['"`])([^'"`]*)\1$/);
+  return match ? match[2] : undefined;
+}
+
+function validateElement(
+  node: TemplateNode,
+  tag: string,
+  comp: ResolvedComponent,
+  problems: UsageProblem[],
+): void {
+  const report = (kind: UsageProblemKind, severity: UsageProblem['severity'], message: string, at: SourcePosition) => {
+    problems.push({ kind, severity, message, component: tag, line: at.line, column: at.column });
+  };
+
+  const propsByName = new Map<string, PropDefinition>(comp.props.map(p => [p.name, p]));
+  const emitNames = new Set(comp.emits.map(e => camelize(e.name)));
+  const slotNames = new Set(comp.slots.map(s => s.name));
+  const hasDynamicSlots = comp.slots.some(s => s.name.startsWith('['));
+
+  const providedProps = new Set<string>();
+  let hasPropSpread = false;
+
+  const checkValue = (prop: PropDefinition, value: string, at: SourcePosition) => {
+    if (prop.validValues && !prop.validValues.includes(value)) {
+      report('invalid-value', 'error', `Invalid value "${value}" for prop "${prop.name}" on <${tag}>. Valid values: ${prop.validValues.join(', ')}`, at);
+    }
+  };
+
+  const checkProp = (rawName: string, at: SourcePosition, value?: string) => {
+    const propName = camelize(rawName);
+    providedProps.add(propName);
+    const prop = propsByName.get(propName);
+    if (!prop) {
+      if (!isPassthroughAttr(rawName)) {
+        report('unknown-prop', 'warning', `Unknown prop "${rawName}" on <${tag}>.`, at);
+      }
+      return;
+    }
+    if (value !== undefined) checkValue(prop, value, at);
+  };
+
+  const checkSlot = (slotName: string, at: SourcePosition) => {
+    if (slotNames.has(slotName) || hasDynamicSlots) return;
+    report('unknown-slot', 'error', `Unknown slot "#${slotName}" on <${tag}>.${slotNames.size > 0 ? ` Available slots: ${[...slotNames].join(', ')}` : ''}`, at);
+  };
+
+  for (const prop of node.props ?? []) {
+    if (prop.type === ATTRIBUTE) {
+      checkProp(prop.name, prop.loc.start, prop.value?.content);
+      continue;
+    }
+    if (prop.type !== DIRECTIVE) continue;
+
+    const arg = prop.arg?.isStatic === false ? undefined : prop.arg?.content;
+
+    switch (prop.name) {
+      case 'bind':
+        if (!prop.arg) {
+          hasPropSpread = true;
+        } else if (arg) {
+          checkProp(arg, prop.loc.start, prop.exp ? literalValue(prop.exp.content) : undefined);
+        }
+        break;
+      case 'model':
+        checkProp(arg ?? 'modelValue', prop.loc.start);
+        break;
+      case 'on':
+        if (arg && !emitNames.has(camelize(arg))) {
+          report('unknown-event', 'warning', `<${tag}> does not emit "${arg}".${emitNames.size > 0 ? ` Emits: ${comp.emits.map(e => e.name).join(', ')}` : ''}`, prop.loc.start);
+        }
+        break;
+      case 'slot':
+        if (!prop.arg) checkSlot('default', prop.loc.start);
+        else if (arg) checkSlot(arg, prop.loc.start);
+        break;
+    }
+  }
+
+  // Slots passed through <template #name> children
+  for (const child of node.children ?? []) {
+    if (child.type !== ELEMENT || child.tag !== 'template') continue;
+    for (const prop of child.props ?? []) {
+      if (prop.type !== DIRECTIVE || prop.name !== 'slot') continue;
+      if (!prop.arg) checkSlot('default', prop.loc.start);
+      else if (prop.arg.isStatic !== false) checkSlot(prop.arg.content, prop.loc.start);
+    }
+  }
+
+  if (!hasPropSpread) {
+    for (const prop of comp.props) {
+      if (prop.required && !providedProps.has(prop.name)) {
+        report('missing-required-prop', 'error', `Missing required prop "${prop.name}" on <${tag}>.`, node.loc.start);
+      }
+    }
+  }
+}
+
+function walk(
+  node: TemplateNode,
+  registry: Map<string, ResolvedComponent>,
+  problems: UsageProblem[],
+): void {
+  if (node.type === ELEMENT && node.tag) {
+    const tag = normalizeTag(node.tag);
+    if (tag) {
+      const comp = registry.get(tag);
+      if (comp) {
+        validateElement(node, node.tag, comp, problems);
+      } else {
+        problems.push({
+          kind: 'unknown-component',
+          severity: 'error',
+          message: `Unknown component <${node.tag}>. Use list_components to see available components.`,
+          component: node.tag,
+          line: node.loc.start.line,
+          column: node.loc.start.column,
+        });
+      }
+    }
+  }
+
+  for (const child of node.children ?? []) {
+    walk(child, registry, problems);
+  }
+}
+
+/**
+ * Validate every <Spr*> element in an SFC or bare template snippet.
+ * Line and column numbers are 1-based and refer to the original source.
+ */
+export function validateUsage(source: string, components: ComponentManifest[]): UsageProblem[] {
+  const result = parseTemplate(source);
+  const problems: UsageProblem[] = [];
+
+  for (const error of result.errors) {
+    const loc = 'loc' in error ? error.loc : undefined;
+    problems.push({
+      kind: 'parse-error',
+      severity: 'error',
+      message: error.message,
+      line: loc?.start.line ?? 1,
+      column: loc?.start.column ?? 1,
+    });
+  }
+
+  if (result.ast) {
+    walk(result.ast, buildTagRegistry(components), problems);
+  }
+
+  return problems
+    .map(p => ({ ...p, ...result.toOriginal(p) }))
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -4,6 +4,7 @@
 
 import { existsSync, readdirSync, statSync } from 'fs';
 import { join, extname } from 'path';
+import { editDistance } from './search.js';
 import type { PropDefinition, SlotDefinition } from './types.js';
 
 export function toPascalCase(kebab: string): string {
@@ -13,6 +14,18 @@ export function toPascalCase(kebab: string): string {
     .join('');
 }
 
+/**
+ * Read a `--flag value` or `--flag=value` option from argv.
+ */
+export function readFlag(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) return argv[i + 1];
+    if (arg.startsWith(`${flag}=`)) return arg.slice(flag.length + 1);
+  }
+  return undefined;
+}
+
 export interface SubComponentMeta {
   name: string;
   pascalName: string;
@@ -60,23 +73,122 @@ export function getSubComponents(componentDir: string, componentName: string): S
   return subs;
 }
 
-export const componentCategories: Record<string, string[]> = {
-  form: ['button', 'checkbox', 'input', 'radio', 'select', 'slider', 'switch', 'textarea', 'file-upload', 'date-picker', 'time-picker'],
-  layout: ['accordion', 'card', 'collapsible', 'sidenav', 'sidepanel', 'tabs', 'modal'],
-  data: ['avatar', 'badge', 'banner', 'calendar', 'calendar-cell', 'chips', 'empty-state', 'list', 'lozenge', 'progress-bar', 'status', 'table', 'audit-trail'],
-  feedback: ['snackbar', 'tooltip', 'popper'],
-  navigation: ['dropdown', 'stepper', 'floating-action'],
-  filter: ['attribute-filter', 'filter'],
-  utility: ['icon', 'logo'],
-};
-
-export function getComponentCategory(name: string): string {
-  for (const [category, components] of Object.entries(componentCategories)) {
+/**
+ * The category a component is listed under in `categories` (see component-config.json), or "other".
+ */
+export function getComponentCategory(name: string, categories: Record<string, string[]>): string {
+  for (const [category, components] of Object.entries(categories)) {
     if (components.includes(name)) return category;
   }
   return 'other';
 }
 
+/**
+ * Common names for components, mapped to the manifest names they may refer to. Teams add
+ * their own through the `aliases` key of a component config (see mergeComponentAliases).
+ */
+export const componentAliases: Record<string, string[]> = {
+  'dialog': ['modal'],
+  'popup': ['modal'],
+  'toast': ['snackbar'],
+  'notification': ['snackbar', 'banner'],
+  'alert': ['banner', 'snackbar'],
+  'toggle': ['switch'],
+  'tag': ['chips', 'lozenge'],
+  'chip': ['chips'],
+  'pill': ['lozenge', 'chips'],
+  'text-field': ['input'],
+  'textbox': ['input'],
+  'text-area': ['textarea'],
+  'combobox': ['select'],
+  'multiselect': ['select'],
+  'radio-button': ['radio'],
+  'range': ['slider'],
+  'upload': ['file-upload'],
+  'drawer': ['sidepanel'],
+  'sidebar': ['sidenav'],
+  'menu': ['dropdown'],
+  'popover': ['popper', 'tooltip'],
+  'fab': ['floating-action'],
+  'wizard': ['stepper'],
+  'steps': ['stepper'],
+  'collapse': ['collapsible'],
+  'expansion-panel': ['accordion'],
+  'data-table': ['table'],
+  'datagrid': ['table'],
+  'grid': ['table'],
+  'tab': ['tabs'],
+  'progress': ['progress-bar'],
+  'timeline': ['audit-trail'],
+};
+
+/**
+ * Normalize user input to manifest naming: "SprDatePicker", "date picker" → "date-picker".
+ */
+export function normalizeComponentName(input: string): string {
+  return input
+    .trim()
+    .replace(/^<\/?\s*|\s*\/?>$/g, '')
+    .replace(/^(?:spr-|Spr(?=[A-Z]))/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[\s_]+/g, '-')
+    .toLowerCase();
+}
+
+function lookupAlias(name: string, aliases: Record<string, string[]>): string[] {
+  return aliases[name] ?? aliases[name.replace(/s$/, '')] ?? [];
+}
+
+/**
+ * Resolve a requested component name to a manifest name, directly or via componentAliases.
+ * Returns null when neither matches.
+ */
+export function resolveComponentName(
+  input: string,
+  knownNames: Iterable<string>,
+  aliases: Record<string, string[]> = componentAliases,
+): string | null {
+  const known = new Set(knownNames);
+  const normalized = normalizeComponentName(input);
+  if (known.has(normalized)) return normalized;
+
+  return lookupAlias(normalized, aliases).find(c => known.has(c)) ?? null;
+}
+
+// Shorter inputs are contained in too many names for a substring match to mean anything
+const minSubstringLength = 3;
+
+/**
+ * Suggest the closest component names for an unknown input, for "not found" errors.
+ */
+export function suggestComponentNames(
+  input: string,
+  knownNames: Iterable<string>,
+  limit = 3,
+  aliases: Record<string, string[]> = componentAliases,
+): string[] {
+  const normalized = normalizeComponentName(input);
+  const maxDistance = Math.max(2, Math.ceil(normalized.length / 2));
+  const aliasTargets = lookupAlias(normalized, aliases);
+
+  const ranked: Array<{ name: string; distance: number }> = [];
+  for (const name of knownNames) {
+    let distance = aliasTargets.includes(name) ? 0 : editDistance(normalized, name, maxDistance);
+    // A name containing the input (or contained in it) is always suggested, after closer typos
+    const contains =
+      (normalized.length >= minSubstringLength && name.includes(normalized)) ||
+      (name.length >= minSubstringLength && normalized.includes(name));
+    if (contains) distance = Math.min(distance, maxDistance);
+
+    if (distance <= maxDistance) ranked.push({ name, distance });
+  }
+
+  return ranked
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(r => r.name);
+}
+
 /**
  * Resolve a file path by checking nested directory first, then flat.
  * Returns null if neither exists.
@@ -0,0 +1,38 @@
+/**
+ * Manifest fixtures for unit tests: entries with empty defaults, overridden with only
+ * what a test cares about.
+ */
+
+import { toPascalCase } from '../../src/utils.js';
+import type { ComponentManifest, Manifest } from '../../src/types.js';
+
+/**
+ * A "form" component with no props, emits, slots, types, composables or sub-components.
+ * pascalName defaults to the PascalCase of the name.
+ */
+export function component(overrides: Partial<ComponentManifest> & { name: string }): ComponentManifest {
+  return {
+    pascalName: toPascalCase(overrides.name),
+    category: 'form',
+    props: [],
+    emits: [],
+    slots: [],
+    types: [],
+    composables: [],
+    subComponents: [],
+    ...overrides,
+  };
+}
+
+export function manifest(designSystemVersion: string, components: ComponentManifest[], overrides: Partial<Manifest> = {}): Manifest {
+  return {
+    version: '1.1.0',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    designSystemVersion,
+    components,
+    tokens: { colors: [], spacing: [], borderRadius: [], maxWidth: [], utilities: [] },
+    stores: [],
+    assets: { images: [], emptyStates: [] },
+    ...overrides,
+  };
+}
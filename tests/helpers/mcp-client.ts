@@ -134,6 +134,26 @@ export class McpTestClient {
     return this.sendRequest('tools/list', {});
   }
 
+  async listResources(): Promise<JsonRpcResponse> {
+    return this.sendRequest('resources/list', {});
+  }
+
+  async listResourceTemplates(): Promise<JsonRpcResponse> {
+    return this.sendRequest('resources/templates/list', {});
+  }
+
+  async readResource(uri: string): Promise<JsonRpcResponse> {
+    return this.sendRequest('resources/read', { uri });
+  }
+
+  async listPrompts(): Promise<JsonRpcResponse> {
+    return this.sendRequest('prompts/list', {});
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<JsonRpcResponse> {
+    return this.sendRequest('prompts/get', { name, arguments: args });
+  }
+
   async callTool(name: string, args: Record<string, unknown> = {}): Promise<ToolResult> {
     const response = await this.sendRequest('tools/call', {
       name,
@@ -15,20 +15,36 @@ describe('MCP Server Integration Tests', () => {
   });
 
   describe('tools/list', () => {
-    it('returns all 8 tools', async () => {
+    it('returns all 16 tools', async () => {
       const response = await client.listTools();
       expect(response.result).toBeDefined();
       const result = response.result as { tools: Array<{ name: string }> };
-      expect(result.tools).toHaveLength(8);
+      expect(result.tools).toHaveLength(16);
       const toolNames = result.tools.map((t) => t.name);
       expect(toolNames).toContain('list_components');
       expect(toolNames).toContain('get_component');
+      expect(toolNames).toContain('get_component_docs');
+      expect(toolNames).toContain('get_component_dependencies');
       expect(toolNames).toContain('search_components');
       expect(toolNames).toContain('search_by_prop');
       expect(toolNames).toContain('get_component_source');
       expect(toolNames).toContain('get_tokens');
       expect(toolNames).toContain('list_assets');
       expect(toolNames).toContain('get_store');
+      expect(toolNames).toContain('validate_usage');
+      expect(toolNames).toContain('suggest_component');
+      expect(toolNames).toContain('get_type_declarations');
+      expect(toolNames).toContain('list_versions');
+      expect(toolNames).toContain('get_diagnostics');
+      expect(toolNames).toContain('diff_versions');
+    });
+
+    it('advertises generated input schemas', async () => {
+      const response = await client.listTools();
+      const result = response.result as { tools: Array<{ name: string; inputSchema: { type: string; required?: string[] } }> };
+      const getComponent = result.tools.find((t) => t.name === 'get_component')!;
+      expect(getComponent.inputSchema.type).toBe('object');
+      expect(getComponent.inputSchema.required).toEqual(['name']);
     });
   });
 
@@ -82,10 +98,50 @@ describe('MCP Server Integration Tests', () => {
       expect(component.usageExample).toContain('SprButton');
     });
 
+    it('returns a structured error when name is missing', async () => {
+      const result = await client.callTool('get_component', {});
+      expect(result.isError).toBe(true);
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error.code).toBe('invalid_arguments');
+      expect(error.fields.map((f: { field: string }) => f.field)).toEqual(['name']);
+    });
+
     it('returns error for invalid component', async () => {
       const result = await client.callTool('get_component', { name: 'nonexistent' });
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('not found');
+      expect(JSON.parse(result.content[0].text).error).toMatchObject({ code: 'component_not_found', fields: [{ field: 'name' }] });
+    });
+
+    it('leaves out the docs summary when fields omit it or the response is compact', async () => {
+      for (const args of [{ fields: ['props'] }, { compact: true }]) {
+        const result = await client.callTool('get_component', { name: 'button', ...args });
+        expect(result.isError).toBeFalsy();
+        expect(JSON.parse(result.content[0].text).summary).toBeUndefined();
+      }
+    });
+
+    it('returns real usage examples only when the manifest has them', async () => {
+      const result = await client.callTool('get_component', { name: 'button', fields: ['examples'] });
+      expect(result.isError).toBeFalsy();
+      const component = JSON.parse(result.content[0].text);
+      expect(component.usageExample).toBeUndefined();
+      for (const example of component.examples ?? []) {
+        expect(example).toMatchObject({ code: expect.stringMatching(/<(spr-button|SprButton)/), file: expect.any(String), line: expect.any(Number) });
+      }
+    });
+
+    it('resolves component aliases', async () => {
+      const result = await client.callTool('get_component', { name: 'dialog' });
+      expect(result.isError).toBeFalsy();
+      const component = JSON.parse(result.content[0].text);
+      expect(component.name).toBe('modal');
+    });
+
+    it('suggests the closest names when not found', async () => {
+      const result = await client.callTool('get_component', { name: 'buton' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Did you mean: button');
     });
 
     it('handles case-insensitive component names', async () => {
@@ -94,6 +150,49 @@ describe('MCP Server Integration Tests', () => {
       const component = JSON.parse(result.content[0].text);
       expect(component.name).toBe('button');
     });
+
+    it('returns only the requested fields', async () => {
+      const result = await client.callTool('get_component', { name: 'select', fields: ['emits'], includeSubComponents: false });
+      expect(result.isError).toBeFalsy();
+      const component = JSON.parse(result.content[0].text);
+      expect(Object.keys(component)).toEqual(['name', 'pascalName', 'category', 'emits']);
+    });
+
+    it('narrows sub-components to the same fields', async () => {
+      const result = await client.callTool('get_component', { name: 'select', fields: ['props'] });
+      const component = JSON.parse(result.content[0].text);
+      expect(component.subComponents.length).toBeGreaterThan(0);
+      for (const sub of component.subComponents) {
+        expect(Object.keys(sub)).toEqual(['name', 'pascalName', 'props']);
+      }
+    });
+
+    it('drops descriptions, validators and type definitions in compact mode', async () => {
+      const result = await client.callTool('get_component', { name: 'button', compact: true });
+      const component = JSON.parse(result.content[0].text);
+      expect(component.props.length).toBeGreaterThan(0);
+      for (const prop of component.props) {
+        expect(prop).not.toHaveProperty('description');
+        expect(prop).not.toHaveProperty('validator');
+      }
+      expect(component.types.every((t: unknown) => typeof t === 'string')).toBe(true);
+    });
+
+    it('returns error for unknown fields', async () => {
+      const result = await client.callTool('get_component', { name: 'button', fields: ['props', 'template'] });
+      expect(result.isError).toBe(true);
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error.code).toBe('invalid_arguments');
+      expect(error.fields).toEqual([{ field: 'fields.1', message: expect.stringContaining('Invalid field "template"') }]);
+    });
+
+    it('reports misspelled arguments instead of ignoring them', async () => {
+      const result = await client.callTool('get_component', { name: 'table', feilds: ['emits'] });
+      expect(result.isError).toBe(true);
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error.code).toBe('invalid_arguments');
+      expect(error.fields).toEqual([{ field: 'feilds', message: expect.stringContaining('Unknown argument "feilds"') }]);
+    });
   });
 
   describe('search_components', () => {
@@ -115,6 +214,26 @@ describe('MCP Server Integration Tests', () => {
       expect(hasDatePicker).toBe(true);
     });
 
+    it('ranks results with scores and matched fields', async () => {
+      const result = await client.callTool('search_components', { query: 'date picker' });
+      const matches = JSON.parse(result.content[0].text);
+      expect(matches[0].name).toBe('date-picker');
+      expect(typeof matches[0].score).toBe('number');
+      expect(matches[0].matches[0].field).toBe('name');
+    });
+
+    it('finds components by alias', async () => {
+      const result = await client.callTool('search_components', { query: 'toast' });
+      const matches = JSON.parse(result.content[0].text);
+      expect(matches[0].name).toBe('snackbar');
+    });
+
+    it('tolerates typos', async () => {
+      const result = await client.callTool('search_components', { query: 'chekbox' });
+      const matches = JSON.parse(result.content[0].text);
+      expect(matches[0].name).toBe('checkbox');
+    });
+
     it('returns empty array for no matches', async () => {
       const result = await client.callTool('search_components', { query: 'zzzznonexistent' });
       expect(result.isError).toBeFalsy();
@@ -170,13 +289,38 @@ describe('MCP Server Integration Tests', () => {
     it('returns source files for button', async () => {
       const result = await client.callTool('get_component_source', { name: 'button' });
       expect(result.isError).toBeFalsy();
-      const files = JSON.parse(result.content[0].text);
-      expect(typeof files).toBe('object');
-      const fileNames = Object.keys(files);
-      expect(fileNames.length).toBeGreaterThan(0);
+      expect(result.content.length).toBeGreaterThan(0);
+      // One content item per file
+      const files = result.content.map((item) => JSON.parse(item.text));
+      const fileNames = files.map((f: { path: string }) => f.path);
       // Should have at least .vue or .ts files
-      const hasVueOrTs = fileNames.some((f) => f.endsWith('.vue') || f.endsWith('.ts'));
+      const hasVueOrTs = fileNames.some((f: string) => f.endsWith('.vue') || f.endsWith('.ts'));
       expect(hasVueOrTs).toBe(true);
+      expect(files[0]).toHaveProperty('language');
+      expect(files[0].bytes).toBeGreaterThan(0);
+    });
+
+    it('filters files by glob and trims to a line range', async () => {
+      const result = await client.callTool('get_component_source', { name: 'button', files: ['*.vue'], startLine: 1, endLine: 3 });
+      expect(result.isError).toBeFalsy();
+      for (const item of result.content) {
+        const file = JSON.parse(item.text);
+        expect(file.path.endsWith('.vue')).toBe(true);
+        expect(file.language).toBe('vue');
+        expect(file.endLine).toBeLessThanOrEqual(3);
+      }
+    });
+
+    it('refuses names that escape the components directory', async () => {
+      const result = await client.callTool('get_component_source', { name: '../stores' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not found');
+    });
+
+    it('returns error when no files match', async () => {
+      const result = await client.callTool('get_component_source', { name: 'button', files: ['*.scss'] });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Available files');
     });
 
     it('returns error for invalid component', async () => {
@@ -288,6 +432,295 @@ describe('MCP Server Integration Tests', () => {
       const result = await client.callTool('get_store', { name: 'nonexistent' });
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('not found');
+      expect(JSON.parse(result.content[0].text).error.code).toBe('not_found');
+    });
+  });
+
+  describe('validate_usage', () => {
+    it('returns valid for correct usage', async () => {
+      const result = await client.callTool('validate_usage', { source: '<SprButton tone="success">Save</SprButton>' });
+      expect(result.isError).toBeFalsy();
+      const report = JSON.parse(result.content[0].text);
+      expect(report.valid).toBe(true);
+      expect(report.problems).toEqual([]);
+    });
+
+    it('reports problems with line and column', async () => {
+      const result = await client.callTool('validate_usage', { source: '<SprButton\n  tone="sucess" />' });
+      expect(result.isError).toBeFalsy();
+      const report = JSON.parse(result.content[0].text);
+      expect(report.valid).toBe(false);
+      expect(report.problems[0]).toMatchObject({ kind: 'invalid-value', line: 2, column: 3 });
+    });
+  });
+
+  describe('format: markdown', () => {
+    it('renders get_component as markdown', async () => {
+      const result = await client.callTool('get_component', { name: 'button', format: 'markdown' });
+      expect(result.isError).toBeFalsy();
+      const text = result.content[0].text;
+      expect(text).toContain('# SprButton');
+      expect(text).toContain('| Name | Type | Default | Valid values | Required | Description |');
+      expect(text).toContain('```vue');
+    });
+
+    it('renders tokens as tables with hex values', async () => {
+      const result = await client.callTool('get_tokens', { type: 'colors', format: 'markdown' });
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toMatch(/\| white \| #[0-9A-F]{6} \|/);
+    });
+
+    it('returns error for an unknown format', async () => {
+      const result = await client.callTool('list_components', { format: 'yaml' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Invalid format');
+    });
+  });
+
+  describe('suggest_component', () => {
+    it('suggests the multiple select for picking several tags', async () => {
+      const result = await client.callTool('suggest_component', { intent: 'let the user pick several tags from a long list' });
+      expect(result.isError).toBeFalsy();
+      const suggestions = JSON.parse(result.content[0].text);
+      expect(suggestions[0]).toMatchObject({ name: 'select', subComponent: 'select-multiple' });
+      expect(suggestions[0].reasons.length).toBeGreaterThan(0);
+    });
+
+    it('suggests snackbar for a non-blocking message', async () => {
+      const result = await client.callTool('suggest_component', { intent: 'show a non-blocking success message', limit: 3 });
+      const suggestions = JSON.parse(result.content[0].text);
+      expect(suggestions.length).toBeLessThanOrEqual(3);
+      expect(suggestions[0].name).toBe('snackbar');
+    });
+
+    it('returns error for an empty intent', async () => {
+      const result = await client.callTool('suggest_component', { intent: '' });
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('get_type_declarations', () => {
+    it('declares every component in GlobalComponents', async () => {
+      const result = await client.callTool('get_type_declarations');
+      expect(result.isError).toBeFalsy();
+      const data = JSON.parse(result.content[0].text);
+      expect(data.fileName).toBe('sprout-components.d.ts');
+      expect(data.components).toContain('SprButton');
+      expect(data.content).toContain('export interface GlobalComponents {');
+      expect(data.content).toMatch(/tone\?: '[^']+'( \| '[^']+')+;/);
+    });
+
+    it('limits declarations to the requested components', async () => {
+      const result = await client.callTool('get_type_declarations', { components: ['select'] });
+      const data = JSON.parse(result.content[0].text);
+      expect(data.components[0]).toBe('SprSelect');
+      expect(data.components).toContain('SprSelectMultiple');
+      expect(data.components).not.toContain('SprButton');
+    });
+
+    it('returns error for an unknown component', async () => {
+      const result = await client.callTool('get_type_declarations', { components: ['nonexistent'] });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('get_component_docs', () => {
+    it('returns the docs harvested for a component, if any', async () => {
+      const result = await client.callTool('get_component_docs', { name: 'button' });
+      expect(result.isError).toBeFalsy();
+      const data = JSON.parse(result.content[0].text);
+      expect(data).toMatchObject({ name: 'button', pascalName: 'Button', designSystemVersion: '2.26.14' });
+      expect(typeof data.recorded).toBe('boolean');
+      expect(Array.isArray(data.files)).toBe(true);
+      expect(Array.isArray(data.sections)).toBe(true);
+    });
+
+    it('resolves aliases and renders markdown', async () => {
+      const result = await client.callTool('get_component_docs', { name: 'dialog', format: 'markdown' });
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toMatch(/^# SprModal/);
+    });
+
+    it('returns error for an unknown component', async () => {
+      const result = await client.callTool('get_component_docs', { name: 'nonexistent' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('get_component_dependencies', () => {
+    it('returns what a component renders and what renders it', async () => {
+      const result = await client.callTool('get_component_dependencies', { name: 'select' });
+      expect(result.isError).toBeFalsy();
+      const data = JSON.parse(result.content[0].text);
+      expect(data).toMatchObject({ name: 'select', pascalName: 'Select', designSystemVersion: '2.26.14' });
+      expect(typeof data.recorded).toBe('boolean');
+      expect(Array.isArray(data.uses)).toBe(true);
+      expect(Array.isArray(data.usedBy)).toBe(true);
+      expect(Array.isArray(data.unresolved)).toBe(true);
+    });
+
+    it('resolves aliases and renders markdown', async () => {
+      const result = await client.callTool('get_component_dependencies', { name: 'dialog', format: 'markdown' });
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toMatch(/^# SprModal/);
+    });
+
+    it('returns error for an unknown component', async () => {
+      const result = await client.callTool('get_component_dependencies', { name: 'nonexistent' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('get_diagnostics', () => {
+    it('reports recorded parser failures, if any', async () => {
+      const result = await client.callTool('get_diagnostics');
+      expect(result.isError).toBeFalsy();
+      const data = JSON.parse(result.content[0].text);
+      expect(data.designSystemVersion).toBe('2.26.14');
+      expect(typeof data.recorded).toBe('boolean');
+      expect(Array.isArray(data.diagnostics)).toBe(true);
+      expect(data).toHaveProperty('versionMismatch');
+    });
+
+    it('filters by component', async () => {
+      const result = await client.callTool('get_diagnostics', { component: 'Select' });
+      expect(result.isError).toBeFalsy();
+      const data = JSON.parse(result.content[0].text);
+      expect(data.diagnostics.every((d: { component: string }) => d.component === 'select')).toBe(true);
+    });
+
+    it('returns error for an unknown component', async () => {
+      const result = await client.callTool('get_diagnostics', { component: 'nonexistent' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('list_versions', () => {
+    it('lists the bundled manifest as the default version', async () => {
+      const result = await client.callTool('list_versions');
+      expect(result.isError).toBeFalsy();
+      const data = JSON.parse(result.content[0].text);
+      expect(data.defaultVersion).toBe('2.26.14');
+      expect(data.versions[0]).toMatchObject({ version: '2.26.14', default: true });
+      expect(data.versions[0].componentCount).toBeGreaterThan(0);
+    });
+
+    it('reports the installed package version and any mismatch with the bundled manifest', async () => {
+      const result = await client.callTool('list_versions');
+      const data = JSON.parse(result.content[0].text);
+      expect(data).toHaveProperty('installedVersion');
+      if (data.installedVersion && data.installedVersion !== '2.26.14') {
+        expect(data.versionMismatch).toMatchObject({ manifestVersion: '2.26.14', installedVersion: data.installedVersion });
+      } else {
+        expect(data.versionMismatch).toBeNull();
+      }
+    });
+
+    it('accepts a version range on other tools', async () => {
+      const result = await client.callTool('get_component', { name: 'button', version: '^2.20.0' });
+      expect(result.isError).toBeFalsy();
+    });
+
+    it('returns error for an unavailable version', async () => {
+      const result = await client.callTool('list_components', { version: '1.0.0' });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Available versions');
+      expect(JSON.parse(result.content[0].text).error).toMatchObject({ code: 'version_not_available', fields: [{ field: 'version' }] });
+    });
+  });
+
+  describe('diff_versions', () => {
+    it('reports no changes between a version and itself', async () => {
+      const result = await client.callTool('diff_versions', { from: '2.26.14', to: '2.26.14' });
+      expect(result.isError).toBeFalsy();
+      const data = JSON.parse(result.content[0].text);
+      expect(data).toMatchObject({ from: '2.26.14', to: '2.26.14', changes: [] });
+      expect(data.summary.breaking).toBe(0);
+    });
+
+    it('returns error for an unavailable version', async () => {
+      const result = await client.callTool('diff_versions', { from: '1.0.0' });
+      expect(result.isError).toBe(true);
+      const { error } = JSON.parse(result.content[0].text);
+      expect(error).toMatchObject({ code: 'version_not_available', fields: [{ field: 'from' }] });
+      expect(error.message).toContain('"1.0.0" is not available');
+    });
+  });
+
+  describe('resources', () => {
+    it('lists component, token and store resources', async () => {
+      const response = await client.listResources();
+      expect(response.result).toBeDefined();
+      const result = response.result as { resources: Array<{ uri: string }> };
+      const uris = result.resources.map((r) => r.uri);
+      expect(uris).toContain('design-system://components/button');
+      expect(uris).toContain('design-system://tokens/colors');
+      expect(uris.some((u) => u.startsWith('design-system://stores/'))).toBe(true);
+    });
+
+    it('lists source resources only when the source can be read', async () => {
+      const response = await client.listResources();
+      const uris = (response.result as { resources: Array<{ uri: string }> }).resources.map((r) => r.uri);
+      const source = await client.callTool('get_component_source', { name: 'button' });
+      expect(uris.includes('design-system://components/button/source')).toBe(!source.isError);
+    });
+
+    it('lists resource templates', async () => {
+      const response = await client.listResourceTemplates();
+      const result = response.result as { resourceTemplates: Array<{ uriTemplate: string }> };
+      const templates = result.resourceTemplates.map((t) => t.uriTemplate);
+      expect(templates).toContain('design-system://components/{name}');
+      expect(templates).toContain('design-system://components/{name}/source');
+      expect(templates).toContain('design-system://tokens/{type}');
+      expect(templates).toContain('design-system://stores/{name}');
+    });
+
+    it('reads a component resource', async () => {
+      const response = await client.readResource('design-system://components/button');
+      const result = response.result as { contents: Array<{ uri: string; text: string }> };
+      const component = JSON.parse(result.contents[0].text);
+      expect(component.name).toBe('button');
+      expect(component.usageExample).toContain('SprButton');
+    });
+
+    it('reads a token resource', async () => {
+      const response = await client.readResource('design-system://tokens/colors');
+      const result = response.result as { contents: Array<{ text: string }> };
+      expect(Array.isArray(JSON.parse(result.contents[0].text))).toBe(true);
+    });
+
+    it('returns an error for unknown resources', async () => {
+      const response = await client.readResource('design-system://components/nonexistent');
+      expect(response.error).toBeDefined();
+      expect(response.error!.message).toContain('not found');
+    });
+  });
+
+  describe('prompts', () => {
+    it('lists workflow prompts', async () => {
+      const response = await client.listPrompts();
+      const result = response.result as { prompts: Array<{ name: string }> };
+      const names = result.prompts.map((p) => p.name);
+      expect(names).toContain('build_form');
+      expect(names).toContain('convert_html');
+      expect(names).toContain('review_tokens');
+    });
+
+    it('renders build_form with form components', async () => {
+      const response = await client.getPrompt('build_form', { description: 'a login form' });
+      const result = response.result as { messages: Array<{ content: { text: string } }> };
+      expect(result.messages[0].content.text).toContain('a login form');
+      expect(result.messages[0].content.text).toContain('SprInput');
+    });
+
+    it('returns an error when a required argument is missing', async () => {
+      const response = await client.getPrompt('convert_html');
+      expect(response.error).toBeDefined();
+      expect(response.error!.message).toContain('html');
     });
   });
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readComponentConfig, mergeComponentAliases, isIgnoredComponent, classifyComponent, type ComponentConfig } from '../../src/component-config.js';
+import { component } from '../helpers/manifest-fixtures.js';
+
+const config: ComponentConfig = { categories: { form: ['button'], layout: ['card'] }, ignore: ['.*', 'internal-*', 'playground'], aliases: {} };
+
+describe('readComponentConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads categories and defaults the ignore list and aliases to empty', () => {
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({ categories: { form: ['button'] } }));
+    expect(readComponentConfig(join(dir, 'config.json'))).toEqual({ categories: { form: ['button'] }, ignore: [], aliases: {} });
+  });
+
+  it('reads aliases', () => {
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({ categories: {}, aliases: { cta: ['button'] } }));
+    expect(readComponentConfig(join(dir, 'config.json')).aliases).toEqual({ cta: ['button'] });
+  });
+
+  it('lists every problem in an invalid config', () => {
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({ categories: { form: 'button' }, ignore: [1] }));
+    expect(() => readComponentConfig(join(dir, 'config.json'))).toThrow(/categories\.form: expected array, received string\n {2}- ignore\.0: expected string, received number/);
+  });
+
+  it('reports unreadable files', () => {
+    expect(() => readComponentConfig(join(dir, 'missing.json'))).toThrow(`Invalid component config ${join(dir, 'missing.json')}`);
+  });
+});
+
+describe('mergeComponentAliases', () => {
+  it('adds config aliases to the built-in ones, normalizing their names', () => {
+    const aliases = mergeComponentAliases({ aliases: { 'Call To Action': ['button'] } });
+    expect(aliases['call-to-action']).toEqual(['button']);
+    expect(aliases.dialog).toEqual(['modal']);
+  });
+
+  it('lets the config replace a built-in alias', () => {
+    expect(mergeComponentAliases({ aliases: { toast: ['banner'] } }).toast).toEqual(['banner']);
+  });
+});
+
+describe('isIgnoredComponent', () => {
+  it('matches hidden directories, wildcards and exact names', () => {
+    expect(isIgnoredComponent('.tldr', config)).toBe(true);
+    expect(isIgnoredComponent('internal-debug', config)).toBe(true);
+    expect(isIgnoredComponent('playground', config)).toBe(true);
+    expect(isIgnoredComponent('button', config)).toBe(false);
+    expect(isIgnoredComponent('playground-2', config)).toBe(false);
+  });
+});
+
+describe('classifyComponent', () => {
+  it('prefers the config over heuristics', () => {
+    const card = component({ name: 'card', props: [{ name: 'modelValue', type: 'boolean' }], emits: [{ name: 'update:modelValue' }] });
+    expect(classifyComponent(card, config)).toEqual({ category: 'layout', source: 'config', reason: 'listed in the component config' });
+  });
+
+  it('classifies v-model components as form', () => {
+    const rating = component({ name: 'rating', props: [{ name: 'modelValue', type: 'number' }], emits: [{ name: 'update:modelValue' }] });
+    expect(classifyComponent(rating, config)).toMatchObject({ category: 'form', source: 'heuristic' });
+    expect(classifyComponent({ ...rating, emits: [] }, config).category).not.toBe('form');
+  });
+
+  it('classifies components that use a store as feedback', () => {
+    expect(classifyComponent(component({ name: 'toast-stack' }), config, ['useToastStore'])).toMatchObject({ category: 'feedback', reason: 'uses a store' });
+  });
+
+  it('classifies by name, slots and collection props', () => {
+    expect(classifyComponent(component({ name: 'date-filter' }), config).category).toBe('filter');
+    expect(classifyComponent(component({ name: 'breadcrumbs' }), config).category).toBe('navigation');
+    expect(classifyComponent(component({ name: 'drawer', slots: [{ name: 'header', scoped: false }] }), config).category).toBe('layout');
+    expect(classifyComponent(component({ name: 'timeline', props: [{ name: 'items', type: 'Array' }] }), config).category).toBe('data');
+  });
+
+  it('falls back to "other"', () => {
+    expect(classifyComponent(component({ name: 'divider' }), config)).toEqual({ category: 'other', source: 'none', reason: 'no heuristic matched' });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraph } from '../../src/component-dependencies.js';
+import { component } from '../helpers/manifest-fixtures.js';
+
+describe('buildDependencyGraph', () => {
+  const components = [
+    component({ name: 'button', dependencies: { tags: [], imports: [] } }),
+    component({ name: 'checkbox', dependencies: { tags: [], imports: [] } }),
+    component({ name: 'empty-state', dependencies: { tags: ['SprButton'], imports: [] } }),
+    component({
+      name: 'table',
+      dependencies: { tags: ['SprCheckbox', 'SprTableActions', 'SprMystery'], imports: [{ specifier: '../empty-state/empty-state.vue', component: 'empty-state' }] },
+      subComponents: [{ name: 'table-actions', pascalName: 'TableActions', props: [], emits: [], slots: [], dependencies: { tags: ['SprButton', 'SprTable'], imports: [] } }],
+    }),
+  ];
+
+  it('records what each component and its sub-components render, resolved to components', () => {
+    const graph = buildDependencyGraph(components);
+    expect(graph.recorded).toBe(true);
+    expect(graph.uses.get('table')).toEqual([
+      { component: 'button', via: ['SprButton'], from: ['table-actions'] },
+      { component: 'checkbox', via: ['SprCheckbox'], from: ['table'] },
+      { component: 'empty-state', via: ['../empty-state/empty-state.vue'], from: ['table'] },
+    ]);
+    expect(graph.uses.get('button')).toEqual([]);
+    expect(graph.unresolved.get('table')).toEqual(['SprMystery']);
+  });
+
+  it('records the reverse edges', () => {
+    const graph = buildDependencyGraph(components);
+    expect(graph.usedBy.get('button')).toEqual([
+      { component: 'empty-state', via: ['SprButton'], from: ['empty-state'] },
+      { component: 'table', via: ['SprButton'], from: ['table-actions'] },
+    ]);
+    expect(graph.usedBy.get('table')).toBeUndefined();
+  });
+
+  it('is unrecorded for manifests generated before dependencies were', () => {
+    const graph = buildDependencyGraph([component({ name: 'button' })]);
+    expect(graph.recorded).toBe(false);
+    expect(graph.uses.get('button')).toEqual([]);
+  });
+});
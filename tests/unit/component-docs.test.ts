@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseDocPage, docPageComponentName, findComponentDocFiles, readComponentDocs } from '../../src/component-docs.js';
+
+describe('parseDocPage', () => {
+  it('splits a page into title, summary and sections, keeping deeper headings in their section', () => {
+    const page = parseDocPage(
+      [
+        '# Button',
+        '',
+        'Buttons trigger an action',
+        'or an event.',
+        '',
+        '## When to use',
+        '',
+        'For the primary action of a form.',
+        '',
+        "### Don't",
+        '',
+        'Use more than one primary button.',
+        '',
+        '## Accessibility {#a11y}',
+        '',
+        'Give icon-only buttons an `aria-label`.',
+      ].join('\n'),
+    );
+    expect(page).toEqual({
+      title: 'Button',
+      summary: 'Buttons trigger an action or an event.',
+      sections: [
+        { heading: 'When to use', content: "For the primary action of a form.\n\n### Don't\n\nUse more than one primary button." },
+        { heading: 'Accessibility', content: 'Give icon-only buttons an `aria-label`.' },
+      ],
+    });
+  });
+
+  it('reads VitePress pages: front matter, script blocks, demos and headings inside code fences', () => {
+    const page = parseDocPage(
+      [
+        '---',
+        'title: Select',
+        'description: "Pick one option from a list."',
+        '---',
+        '<script setup>',
+        "import { ref } from 'vue';",
+        '</script>',
+        '',
+        '# Select',
+        '',
+        '<SprSelect v-model="value" />',
+        '',
+        '## Usage',
+        '',
+        '```vue',
+        '# not a heading',
+        '```',
+        '',
+        '<!-- TODO: more examples -->',
+        '## Empty section',
+      ].join('\r\n'),
+    );
+    expect(page).toEqual({
+      title: 'Select',
+      summary: 'Pick one option from a list.',
+      sections: [
+        { heading: 'Overview', content: '<SprSelect v-model="value" />' },
+        { heading: 'Usage', content: '```vue\n# not a heading\n```' },
+      ],
+    });
+  });
+});
+
+describe('docPageComponentName', () => {
+  it('maps page file names to component directory names', () => {
+    expect(docPageComponentName('docs/components/date-picker.md')).toBe('date-picker');
+    expect(docPageComponentName('docs/DatePicker.md')).toBe('date-picker');
+    expect(docPageComponentName('docs/spr-date-picker.md')).toBe('date-picker');
+    expect(docPageComponentName('docs/date-picker/index.md')).toBe('date-picker');
+    expect(docPageComponentName('src/components/date-picker/README.md')).toBe('date-picker');
+  });
+});
+
+describe('findComponentDocFiles / readComponentDocs', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mcp-ds-docs-'));
+    for (const dir of ['docs/components/button', 'docs/.vitepress', 'src/components/button', 'src/components/badge']) {
+      mkdirSync(join(root, dir), { recursive: true });
+    }
+    writeFileSync(join(root, 'docs', 'components', 'button', 'index.md'), '# Button\n\nButtons trigger actions.\n\n## When to use\n\nFor primary actions.\n');
+    writeFileSync(join(root, 'docs', '.vitepress', 'button.md'), '# Theme override\n');
+    writeFileSync(join(root, 'docs', 'components', 'tooltip.md'), '# Tooltip\n\nNot a component in this tree.\n');
+    writeFileSync(join(root, 'src', 'components', 'button', 'README.md'), '## Accessibility\n\nLabel icon-only buttons.\n');
+    writeFileSync(join(root, 'src', 'components', 'badge', 'NOTES.md'), '<!-- empty -->\n');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds docs pages first, then markdown next to the component, skipping hidden directories', () => {
+    const found = findComponentDocFiles(join(root, 'src', 'components'), join(root, 'docs'), ['badge', 'button']);
+    expect(found).toEqual(
+      new Map([
+        ['badge', [join(root, 'src', 'components', 'badge', 'NOTES.md')]],
+        ['button', [join(root, 'docs', 'components', 'button', 'index.md'), join(root, 'src', 'components', 'button', 'README.md')]],
+      ]),
+    );
+  });
+
+  it('merges the pages with paths relative to the root and skips empty ones', () => {
+    const found = findComponentDocFiles(join(root, 'src', 'components'), join(root, 'docs'), ['badge', 'button']);
+    expect(readComponentDocs(found.get('badge')!, root)).toBeUndefined();
+    expect(readComponentDocs(found.get('button')!, root)).toEqual({
+      files: ['docs/components/button/index.md', 'src/components/button/README.md'],
+      summary: 'Buttons trigger actions.',
+      sections: [
+        { heading: 'When to use', content: 'For primary actions.', file: 'docs/components/button/index.md' },
+        { heading: 'Accessibility', content: 'Label icon-only buttons.', file: 'src/components/button/README.md' },
+      ],
+    });
+  });
+
+  it('works without a docs directory', () => {
+    const found = findComponentDocFiles(join(root, 'src', 'components'), join(root, 'missing'), ['button']);
+    expect(found.get('button')).toEqual([join(root, 'src', 'components', 'button', 'README.md')]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseComponent, parseComponents } from '../../src/component-parser.js';
+
+describe('parseComponents', () => {
+  let dir: string;
+  const names = ['zeta', 'alpha', 'select', 'broken'];
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-parse-'));
+    for (const name of names) {
+      mkdirSync(join(dir, name));
+      writeFileSync(
+        join(dir, name, `${name}.ts`),
+        `export const ${name}PropTypes = { tone: { type: String, default: 'neutral' } };\nexport type ${name}Tone = 'neutral';\n`,
+      );
+      writeFileSync(join(dir, name, `${name}.vue`), '<template><div><slot name="header" /></div></template>');
+    }
+    writeFileSync(
+      join(dir, 'select', 'select.vue'),
+      [
+        '<template><div><spr-alpha /><Zeta /><Chip /><RouterLink /></div></template>',
+        '<script setup lang="ts">',
+        "import Zeta from '../zeta/zeta.vue';",
+        "import Chip from '@/components/chip/chip.vue';",
+        "import type { AlphaTone } from '@/components/alpha/alpha';",
+        "import { RouterLink } from 'vue-router';",
+        '</script>',
+      ].join('\n'),
+    );
+    mkdirSync(join(dir, 'select', 'select-multiple'));
+    writeFileSync(join(dir, 'select', 'select-multiple', 'select-multiple.vue'), '<template><SprSelect><slot /></SprSelect></template>');
+    // A directory where the parser expects a file
+    rmSync(join(dir, 'broken', 'broken.vue'));
+    mkdirSync(join(dir, 'broken', 'broken.vue'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns parser failures as diagnostics', () => {
+    const { component, diagnostics } = parseComponent(dir, 'broken');
+    expect(component.props.map(p => p.name)).toEqual(['tone']);
+    expect(component.slots).toEqual([]);
+    expect(diagnostics).toEqual([
+      { component: 'broken', file: 'broken/broken.vue', parser: 'slots', message: expect.stringContaining('EISDIR') },
+      { component: 'broken', file: 'broken/broken.vue', parser: 'dependencies', message: expect.stringContaining('EISDIR') },
+    ]);
+  });
+
+  it('parses sub-components', () => {
+    const { component } = parseComponent(dir, 'select');
+    expect(component.subComponents.map(s => s.name)).toEqual(['select-multiple']);
+  });
+
+  it('records the <Spr*> tags and internal component imports each template renders', () => {
+    const { component } = parseComponent(dir, 'select');
+    expect(component.dependencies).toEqual({
+      tags: ['SprAlpha'],
+      imports: [{ specifier: '../zeta/zeta.vue', component: 'zeta' }, { specifier: '@/components/chip/chip.vue', component: 'chip' }],
+    });
+    expect(component.subComponents[0].dependencies).toEqual({ tags: ['SprSelect'], imports: [] });
+  });
+
+  it('gives the same results in the same order with worker threads', async () => {
+    const inProcess = await parseComponents(dir, names, 1);
+    const parallel = await parseComponents(dir, names, 2);
+    expect(parallel.map(r => r.component.name)).toEqual(names);
+    expect(parallel).toEqual(inProcess);
+  }, 60_000);
+});
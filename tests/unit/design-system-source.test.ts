@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseDesignSystemSourceOptions,
+  resolveDesignSystemSource,
+  readGitInfo,
+  describeDesignSystemSource,
+} from '../../src/design-system-source.js';
+
+const commit = 'a'.repeat(40);
+
+describe('parseDesignSystemSourceOptions', () => {
+  it('defaults to the design-system-next layout', () => {
+    expect(parseDesignSystemSourceOptions([], {})).toEqual({
+      packageName: 'design-system-next',
+      root: undefined,
+      componentsDir: 'src/components',
+      assetsDir: 'src/assets',
+      storesDir: 'src/stores',
+      docsDir: 'docs',
+    });
+  });
+
+  it('reads CLI flags in both forms and prefers them over environment variables', () => {
+    const options = parseDesignSystemSourceOptions(['--package', '@acme/ds', '--components-dir=lib/components'], {
+      MCP_DESIGN_SYSTEM_PACKAGE: 'other',
+      MCP_DESIGN_SYSTEM_ROOT: '../checkout',
+      MCP_STORES_DIR: 'lib/stores',
+    });
+    expect(options).toEqual({
+      packageName: '@acme/ds',
+      root: '../checkout',
+      componentsDir: 'lib/components',
+      assetsDir: 'src/assets',
+      storesDir: 'lib/stores',
+      docsDir: 'docs',
+    });
+  });
+
+  it('rejects empty values', () => {
+    expect(() => parseDesignSystemSourceOptions(['--root='], {})).toThrow('--root (MCP_DESIGN_SYSTEM_ROOT) must not be empty');
+  });
+});
+
+describe('resolveDesignSystemSource', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-source-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves a package by name from its entry point', () => {
+    const packageRoot = join(dir, 'node_modules', '@acme', 'ds');
+    mkdirSync(join(packageRoot, 'dist'), { recursive: true });
+    writeFileSync(join(packageRoot, 'package.json'), JSON.stringify({ name: '@acme/ds', version: '3.1.0', main: 'dist/index.js' }));
+    writeFileSync(join(packageRoot, 'dist', 'index.js'), '');
+
+    const source = resolveDesignSystemSource(parseDesignSystemSourceOptions(['--package', '@acme/ds'], {}), join(dir, 'index.js'));
+    expect(source).toMatchObject({
+      packageName: '@acme/ds',
+      version: '3.1.0',
+      root: packageRoot,
+      componentsPath: join(packageRoot, 'src', 'components'),
+      description: { packageName: '@acme/ds', componentsDir: 'src/components', assetsDir: 'src/assets', storesDir: 'src/stores' },
+    });
+    expect(source.description.root).toBeUndefined();
+  });
+
+  it('reads an explicit checkout with overridden directories and records them', () => {
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'design-system-next', version: '2.27.0-next' }));
+    const options = parseDesignSystemSourceOptions(['--root', dir, '--components-dir', 'lib/components', '--stores-dir', join(dir, 'lib', 'stores'), '--docs-dir', 'site/pages'], {});
+
+    const source = resolveDesignSystemSource(options, join(dir, 'index.js'));
+    expect(source.componentsPath).toBe(join(dir, 'lib', 'components'));
+    expect(source.storesPath).toBe(join(dir, 'lib', 'stores'));
+    expect(source.docsPath).toBe(join(dir, 'site', 'pages'));
+    expect(source.description).toEqual({
+      packageName: 'design-system-next',
+      root: dir,
+      componentsDir: 'lib/components',
+      assetsDir: 'src/assets',
+      storesDir: 'lib/stores',
+      docsDir: 'site/pages',
+    });
+  });
+
+  it('reports a missing package or root', () => {
+    expect(() => resolveDesignSystemSource(parseDesignSystemSourceOptions(['--package', 'not-installed'], {}), join(dir, 'index.js'))).toThrow(
+      'Could not find the not-installed package',
+    );
+    expect(() => resolveDesignSystemSource(parseDesignSystemSourceOptions(['--root', join(dir, 'missing')], {}), join(dir, 'index.js'))).toThrow(
+      'is not a directory',
+    );
+  });
+
+  it('records the checked-out commit and names it in the description', () => {
+    mkdirSync(join(dir, '.git', 'refs', 'heads', 'feature'), { recursive: true });
+    writeFileSync(join(dir, '.git', 'HEAD'), 'ref: refs/heads/feature/next\n');
+    writeFileSync(join(dir, '.git', 'refs', 'heads', 'feature', 'next'), `${commit}\n`);
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: '@acme/ds', version: '3.0.0' }));
+
+    const source = resolveDesignSystemSource(parseDesignSystemSourceOptions(['--root', dir], {}), join(dir, 'index.js'));
+    expect(source.description.git).toEqual({ commit, branch: 'feature/next' });
+    expect(describeDesignSystemSource(source)).toBe(`@acme/ds v3.0.0 from ${dir} @ feature/next aaaaaaaaaaaa`);
+  });
+});
+
+describe('readGitInfo', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-git-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns nothing outside a checkout', () => {
+    expect(readGitInfo(dir)).toBeUndefined();
+  });
+
+  it('reads detached heads and packed refs', () => {
+    mkdirSync(join(dir, '.git'));
+    writeFileSync(join(dir, '.git', 'HEAD'), `${commit}\n`);
+    expect(readGitInfo(dir)).toEqual({ commit });
+
+    writeFileSync(join(dir, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+    writeFileSync(join(dir, '.git', 'packed-refs'), `# pack-refs with: peeled\n${'b'.repeat(40)} refs/heads/main\n`);
+    expect(readGitInfo(dir)).toEqual({ commit: 'b'.repeat(40), branch: 'main' });
+  });
+
+  it('follows a worktree .git file to the shared refs', () => {
+    const main = join(dir, 'main', '.git');
+    const worktreeGitDir = join(main, 'worktrees', 'next');
+    mkdirSync(join(main, 'refs', 'heads'), { recursive: true });
+    mkdirSync(worktreeGitDir, { recursive: true });
+    mkdirSync(join(dir, 'next'));
+    writeFileSync(join(main, 'refs', 'heads', 'next'), `${commit}\n`);
+    writeFileSync(join(worktreeGitDir, 'HEAD'), 'ref: refs/heads/next\n');
+    writeFileSync(join(worktreeGitDir, 'commondir'), '../..\n');
+    writeFileSync(join(dir, 'next', '.git'), `gitdir: ${worktreeGitDir}\n`);
+
+    expect(readGitInfo(join(dir, 'next'))).toEqual({ commit, branch: 'next' });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { request, type Server as HttpServer } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { parseServerOptions, isAuthorized, allowedHostnames, isAllowedOrigin, startHttpServer } from '../../src/http-server.js';
+
+describe('parseServerOptions', () => {
+  it('defaults to stdio', () => {
+    expect(parseServerOptions([], {})).toEqual({
+      transport: 'stdio',
+      host: '127.0.0.1',
+      port: 3000,
+      path: '/mcp',
+      authToken: undefined,
+      allowedHosts: [],
+      sessionTimeoutMs: 1_800_000,
+      maxSessions: 100,
+    });
+  });
+
+  it('reads CLI flags in both forms', () => {
+    const options = parseServerOptions(['--http', '--host', '0.0.0.0', '--port=8080', '--auth-token', 'secret'], {});
+    expect(options).toMatchObject({ transport: 'http', host: '0.0.0.0', port: 8080, authToken: 'secret' });
+  });
+
+  it('falls back to environment variables', () => {
+    const options = parseServerOptions([], {
+      MCP_TRANSPORT: 'HTTP',
+      MCP_HTTP_HOST: '0.0.0.0',
+      MCP_HTTP_PORT: '4000',
+      MCP_HTTP_PATH: 'rpc',
+      MCP_AUTH_TOKEN: 'secret',
+      MCP_ALLOWED_HOSTS: 'devbox, Devbox.local',
+      MCP_SESSION_TIMEOUT: '60',
+      MCP_MAX_SESSIONS: '5',
+    });
+    expect(options).toEqual({
+      transport: 'http',
+      host: '0.0.0.0',
+      port: 4000,
+      path: '/rpc',
+      authToken: 'secret',
+      allowedHosts: ['devbox', 'devbox.local'],
+      sessionTimeoutMs: 60_000,
+      maxSessions: 5,
+    });
+  });
+
+  it('prefers CLI flags over environment variables', () => {
+    expect(parseServerOptions(['--transport', 'stdio'], { MCP_TRANSPORT: 'http' }).transport).toBe('stdio');
+  });
+
+  it('rejects invalid transports and ports', () => {
+    expect(() => parseServerOptions(['--transport', 'sse'], {})).toThrow('Invalid transport');
+    expect(() => parseServerOptions(['--port', 'abc'], {})).toThrow('Invalid port');
+    expect(() => parseServerOptions(['--session-timeout', '0'], {})).toThrow('Invalid session timeout');
+    expect(() => parseServerOptions(['--max-sessions', '1.5'], {})).toThrow('Invalid max sessions');
+  });
+});
+
+describe('isAuthorized', () => {
+  it('allows every request when no token is configured', () => {
+    expect(isAuthorized(undefined, undefined)).toBe(true);
+  });
+
+  it('requires a matching bearer token', () => {
+    expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+    expect(isAuthorized('bearer secret', 'secret')).toBe(true);
+    expect(isAuthorized('Bearer wrong', 'secret')).toBe(false);
+    expect(isAuthorized('secret', 'secret')).toBe(false);
+    expect(isAuthorized(undefined, 'secret')).toBe(false);
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  const loopback = allowedHostnames({ host: '127.0.0.1', allowedHosts: [] });
+
+  it('accepts loopback hosts on any port, with or without a matching Origin', () => {
+    expect(isAllowedOrigin('127.0.0.1:3000', undefined, loopback)).toBe(true);
+    expect(isAllowedOrigin('localhost:3000', 'http://localhost:5173', loopback)).toBe(true);
+    expect(isAllowedOrigin('[::1]:3000', undefined, loopback)).toBe(true);
+  });
+
+  it('rejects foreign Host and Origin headers', () => {
+    expect(isAllowedOrigin('attacker.example:3000', undefined, loopback)).toBe(false);
+    expect(isAllowedOrigin('127.0.0.1:3000', 'http://attacker.example', loopback)).toBe(false);
+    expect(isAllowedOrigin('127.0.0.1:3000', 'null', loopback)).toBe(false);
+    expect(isAllowedOrigin(undefined, undefined, loopback)).toBe(false);
+  });
+
+  it('adds the bind host unless it is a wildcard, plus configured hosts', () => {
+    expect(isAllowedOrigin('10.0.0.5', undefined, allowedHostnames({ host: '10.0.0.5', allowedHosts: [] }))).toBe(true);
+    const wildcard = allowedHostnames({ host: '0.0.0.0', allowedHosts: ['devbox'] });
+    expect(wildcard.has('0.0.0.0')).toBe(false);
+    expect(isAllowedOrigin('devbox:3000', 'http://devbox:8080', wildcard)).toBe(true);
+  });
+});
+
+describe('startHttpServer', () => {
+  let httpServer: HttpServer | undefined;
+
+  afterEach(() => {
+    httpServer?.closeAllConnections();
+    httpServer?.close();
+    httpServer = undefined;
+  });
+
+  const createServer = () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'list_components', inputSchema: { type: 'object' as const } }],
+    }));
+    return server;
+  };
+
+  const start = async (authToken?: string, sessions: { sessionTimeoutMs?: number; maxSessions?: number } = {}) => {
+    httpServer = await startHttpServer(createServer, {
+      transport: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      path: '/mcp',
+      authToken,
+      allowedHosts: [],
+      sessionTimeoutMs: sessions.sessionTimeoutMs ?? 60_000,
+      maxSessions: sessions.maxSessions ?? 10,
+    });
+    const address = httpServer.address();
+    return new URL(`http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}/mcp`);
+  };
+
+  it('serves independent sessions to several clients', async () => {
+    const url = await start('secret');
+    const headers = { Authorization: 'Bearer secret' };
+
+    const first = new Client({ name: 'first', version: '1.0.0' });
+    const second = new Client({ name: 'second', version: '1.0.0' });
+    await first.connect(new StreamableHTTPClientTransport(url, { requestInit: { headers } }));
+    await second.connect(new StreamableHTTPClientTransport(url, { requestInit: { headers } }));
+
+    expect((await first.listTools()).tools[0].name).toBe('list_components');
+    expect((await second.listTools()).tools[0].name).toBe('list_components');
+
+    await first.close();
+    await second.close();
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const url = await start('secret');
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects non-initialize requests without a session', async () => {
+    const url = await start();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects requests with a foreign Host header', async () => {
+    const url = await start();
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request(url, { method: 'POST', headers: { Host: 'attacker.example', 'Content-Type': 'application/json' } }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }));
+    });
+    expect(status).toBe(403);
+  });
+
+  it('closes sessions that stay idle past the timeout', async () => {
+    const url = await start(undefined, { sessionTimeoutMs: 50 });
+    const transport = new StreamableHTTPClientTransport(url);
+    const client = new Client({ name: 'idle', version: '1.0.0' });
+    await client.connect(transport);
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const response = await fetch(url, { method: 'GET', headers: { 'Mcp-Session-Id': transport.sessionId ?? '' } });
+    expect(response.status).toBe(404);
+    await client.close();
+  });
+
+  it('refuses new sessions once the limit is reached', async () => {
+    const url = await start(undefined, { maxSessions: 1 });
+    const first = new Client({ name: 'first', version: '1.0.0' });
+    await first.connect(new StreamableHTTPClientTransport(url));
+
+    const second = new Client({ name: 'second', version: '1.0.0' });
+    await expect(second.connect(new StreamableHTTPClientTransport(url))).rejects.toThrow();
+    await first.close();
+  });
+
+  it('returns 404 for unknown sessions and other paths', async () => {
+    const url = await start();
+    const unknownSession = await fetch(url, { method: 'GET', headers: { 'Mcp-Session-Id': 'missing' } });
+    expect(unknownSession.status).toBe(404);
+    const otherPath = await fetch(new URL('/other', url));
+    expect(otherPath.status).toBe(404);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, renameSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { hashFiles, hashComponentDir, hashDirectory, reusableComponent } from '../../src/manifest-cache.js';
+import { component, manifest } from '../helpers/manifest-fixtures.js';
+
+describe('hashComponentDir', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-hash-'));
+    mkdirSync(join(dir, 'select-multiple'));
+    writeFileSync(join(dir, 'select.ts'), 'export const selectPropTypes = {};');
+    writeFileSync(join(dir, 'select.vue'), '<template />');
+    writeFileSync(join(dir, 'use-select.ts'), 'export const useSelect = () => ({});');
+    writeFileSync(join(dir, 'select-multiple', 'select-multiple.vue'), '<template />');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is stable for unchanged files', () => {
+    expect(hashComponentDir(dir)).toBe(hashComponentDir(dir));
+    expect(hashComponentDir(dir)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes when a composable or sub-component changes', () => {
+    const before = hashComponentDir(dir);
+    writeFileSync(join(dir, 'use-select.ts'), 'export const useSelect = () => ({ open: true });');
+    const afterComposable = hashComponentDir(dir);
+    writeFileSync(join(dir, 'select-multiple', 'select-multiple.vue'), '<template><slot /></template>');
+    expect(afterComposable).not.toBe(before);
+    expect(hashComponentDir(dir)).not.toBe(afterComposable);
+  });
+
+  it('changes when a file is renamed', () => {
+    const before = hashComponentDir(dir);
+    renameSync(join(dir, 'use-select.ts'), join(dir, 'use-options.ts'));
+    expect(hashComponentDir(dir)).not.toBe(before);
+  });
+
+  it('ignores files the parsers never read', () => {
+    const before = hashComponentDir(dir);
+    writeFileSync(join(dir, 'select.css'), '.select {}');
+    expect(hashComponentDir(dir)).toBe(before);
+  });
+
+  it('hashes filtered directory entries, and nothing for a missing directory', () => {
+    expect(hashDirectory(dir, f => f.endsWith('.ts'))).toBe(hashFiles(dir, ['select.ts', 'use-select.ts']));
+    expect(hashDirectory(join(dir, 'missing'))).toBe(hashFiles(dir, []));
+  });
+});
+
+describe('reusableComponent', () => {
+  const button = component({ name: 'button' });
+  const previous = manifest('2.26.14', [button], { hashes: { generator: 'g1', tokens: 't1', components: { button: 'h1' } } });
+
+  it('reuses a component with identical files and parsers', () => {
+    expect(reusableComponent(previous, 'g1', 'button', 'h1')).toBe(button);
+  });
+
+  it('re-parses when the files, the parsers or the hashes changed', () => {
+    expect(reusableComponent(previous, 'g1', 'button', 'h2')).toBeUndefined();
+    expect(reusableComponent(previous, 'g2', 'button', 'h1')).toBeUndefined();
+    expect(reusableComponent({ ...previous, hashes: undefined }, 'g1', 'button', 'h1')).toBeUndefined();
+    expect(reusableComponent(undefined, 'g1', 'button', 'h1')).toBeUndefined();
+  });
+});
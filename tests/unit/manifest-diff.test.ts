@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { diffManifests, formatManifestDiff, summarizeChanges } from '../../src/manifest-diff.js';
+import { component, manifest } from '../helpers/manifest-fixtures.js';
+
+const button = component({
+  name: 'button',
+  props: [
+    { name: 'tone', type: 'string', default: "'neutral'", validValues: ['neutral', 'success', 'danger'] },
+    { name: 'size', type: "'small' | 'medium'" },
+    { name: 'label', type: 'string' },
+    { name: 'disabled', type: 'boolean', required: true },
+  ],
+  emits: [{ name: 'click', payloadType: 'MouseEvent' }],
+  slots: [{ name: 'default', scoped: false }, { name: 'icon', scoped: true, scopeProps: ['size'] }],
+  types: [{ name: 'ButtonTone', kind: 'type', definition: "'neutral' | 'success' | 'danger'" }],
+});
+
+describe('diffManifests', () => {
+  it('reports no changes for identical manifests', () => {
+    const diff = diffManifests(manifest('2.0.0', [button]), manifest('2.0.0', [button]));
+    expect(diff.changes).toEqual([]);
+    expect(diff.summary).toMatchObject({ breaking: 0, nonBreaking: 0 });
+  });
+
+  it('reports added and removed components', () => {
+    const diff = diffManifests(manifest('2.0.0', [button]), manifest('2.1.0', [component({ name: 'card' })]));
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ target: 'component', name: 'button', kind: 'removed', breaking: true }),
+      expect.objectContaining({ target: 'component', name: 'card', kind: 'added', breaking: false }),
+    ]);
+    expect(diff.summary).toMatchObject({ componentsAdded: 1, componentsRemoved: 1, componentsChanged: 0 });
+  });
+
+  it('classifies prop changes', () => {
+    const after = component({
+      name: 'button',
+      props: [
+        { name: 'tone', type: 'string', default: "'success'", validValues: ['neutral', 'success'] },
+        { name: 'size', type: "'small' | 'medium' | 'large'" },
+        { name: 'label', type: 'string', required: true },
+        { name: 'disabled', type: 'boolean' },
+        { name: 'loading', type: 'boolean' },
+        { name: 'id', type: 'string', required: true },
+      ],
+      emits: button.emits,
+      slots: button.slots,
+      types: button.types,
+    });
+    const changes = diffManifests(manifest('2.0.0', [button]), manifest('2.1.0', [after])).changes;
+    const find = (name: string, kind: string) => changes.find(c => c.name === name && c.kind === kind);
+
+    expect(find('tone', 'default-changed')).toMatchObject({ breaking: true, before: "'neutral'", after: "'success'" });
+    expect(find('tone', 'valid-values-narrowed')).toMatchObject({ breaking: true });
+    expect(find('tone', 'valid-values-narrowed')?.message).toContain('no longer accepts danger');
+    expect(find('size', 'type-changed')).toMatchObject({ breaking: false });
+    expect(find('label', 'became-required')).toMatchObject({ breaking: true });
+    expect(find('disabled', 'became-optional')).toMatchObject({ breaking: false });
+    expect(find('loading', 'added')).toMatchObject({ breaking: false });
+    expect(find('id', 'added')).toMatchObject({ breaking: true });
+  });
+
+  it('treats widened validValues as non-breaking', () => {
+    const after = component({ ...button, props: [{ ...button.props[0], validValues: ['neutral', 'success', 'danger', 'info'] }, ...button.props.slice(1)] });
+    const changes = diffManifests(manifest('2.0.0', [button]), manifest('2.1.0', [after])).changes;
+    expect(changes).toEqual([expect.objectContaining({ name: 'tone', kind: 'valid-values-widened', breaking: false })]);
+  });
+
+  it('reports emit, slot and type changes', () => {
+    const after = component({
+      ...button,
+      emits: [{ name: 'click', payloadType: 'Event' }, { name: 'focus' }],
+      slots: [{ name: 'icon', scoped: true, scopeProps: ['size', 'tone'] }],
+      types: [{ name: 'ButtonTone', kind: 'type', definition: "'neutral' | 'success'" }],
+    });
+    const changes = diffManifests(manifest('2.0.0', [button]), manifest('2.1.0', [after])).changes;
+    const summary = changes.map(c => `${c.target}:${c.name}:${c.kind}:${c.breaking}`);
+
+    expect(summary).toContain('emit:click:payload-changed:true');
+    expect(summary).toContain('emit:focus:added:false');
+    expect(summary).toContain('slot:default:removed:true');
+    expect(summary).toContain('slot:icon:scope-changed:false');
+    expect(summary).toContain('type:ButtonTone:definition-changed:true');
+  });
+
+  it('diffs sub-components', () => {
+    const before = component({
+      name: 'select',
+      subComponents: [
+        { name: 'select-multiple', pascalName: 'SelectMultiple', props: [{ name: 'label', type: 'string' }], emits: [], slots: [] },
+        { name: 'select-ladderized', pascalName: 'SelectLadderized', props: [], emits: [], slots: [] },
+      ],
+    });
+    const after = component({
+      name: 'select',
+      subComponents: [
+        { name: 'select-multiple', pascalName: 'SelectMultiple', props: [], emits: [], slots: [] },
+        { name: 'select-chips', pascalName: 'SelectChips', props: [], emits: [], slots: [] },
+      ],
+    });
+    const changes = diffManifests(manifest('2.0.0', [before]), manifest('2.1.0', [after])).changes;
+
+    expect(changes).toContainEqual(expect.objectContaining({ subComponent: 'select-multiple', target: 'prop', name: 'label', kind: 'removed', breaking: true }));
+    expect(changes).toContainEqual(expect.objectContaining({ target: 'sub-component', name: 'select-ladderized', kind: 'removed', breaking: true }));
+    expect(changes).toContainEqual(expect.objectContaining({ target: 'sub-component', name: 'select-chips', kind: 'added', breaking: false }));
+  });
+});
+
+describe('summarizeChanges', () => {
+  it('counts changed components once', () => {
+    const after = component({ ...button, props: [] });
+    const diff = diffManifests(manifest('2.0.0', [button]), manifest('2.1.0', [after]));
+    expect(summarizeChanges(diff.changes)).toEqual({ breaking: 4, nonBreaking: 0, componentsAdded: 0, componentsRemoved: 0, componentsChanged: 1 });
+  });
+});
+
+describe('formatManifestDiff', () => {
+  it('lists breaking changes before non-breaking ones', () => {
+    const diff = diffManifests(manifest('2.0.0', [button]), manifest('2.1.0', [component({ name: 'card' })]));
+    const text = formatManifestDiff(diff);
+    expect(text).toContain('design-system-next 2.0.0 → 2.1.0');
+    expect(text.indexOf('Breaking changes:')).toBeLessThan(text.indexOf('Non-breaking changes:'));
+    expect(text).toContain('Component "button" (SprButton) was removed');
+  });
+});
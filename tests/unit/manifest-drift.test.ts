@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { detectManifestDrift, formatManifestDrift, hasDrift, jsonEqual } from '../../src/manifest-drift.js';
+import { component, manifest } from '../helpers/manifest-fixtures.js';
+
+const button = component({
+  name: 'button',
+  props: [{ name: 'tone', type: 'string', default: "'neutral'" }],
+  slots: [{ name: 'default', scoped: false }],
+});
+
+describe('jsonEqual', () => {
+  it('ignores key order and undefined values', () => {
+    expect(jsonEqual({ name: 'tone', type: 'string', default: undefined }, { type: 'string', name: 'tone' })).toBe(true);
+    expect(jsonEqual([1, { a: 1 }], [1, { a: 2 }])).toBe(false);
+  });
+});
+
+describe('detectManifestDrift', () => {
+  it('ignores generatedAt', () => {
+    const drift = detectManifestDrift(manifest('2.0.0', [button]), manifest('2.0.0', [button], { generatedAt: '2026-02-01T00:00:00.000Z' }));
+    expect(hasDrift(drift)).toBe(false);
+    expect(formatManifestDrift(drift, 'component-manifest.json')).toBe('component-manifest.json is up to date (design-system-next 2.0.0)');
+  });
+
+  it('lists added, removed and changed components with their changed fields', () => {
+    const changed = component({ ...button, props: [{ name: 'tone', type: 'string', default: "'success'" }], composables: [{ name: 'useButton', fileName: 'use-button.ts', signature: '()', returnedMembers: [] }] });
+    const drift = detectManifestDrift(
+      manifest('2.0.0', [button, component({ name: 'badge' })]),
+      manifest('2.1.0', [changed, component({ name: 'card' })]),
+    );
+
+    expect(drift.components).toEqual([
+      { name: 'badge', status: 'removed', fields: [], changes: [] },
+      { name: 'button', status: 'changed', fields: ['props', 'composables'], changes: ['button: prop "tone" default changed from \'neutral\' to \'success\''] },
+      { name: 'card', status: 'added', fields: [], changes: [] },
+    ]);
+    expect(drift.fields).toEqual(['designSystemVersion']);
+  });
+
+  it('reports drift outside components by field name', () => {
+    const tokens = { colors: [], spacing: [{ name: 'spacing-1', value: '4px' }], borderRadius: [], maxWidth: [], utilities: [] };
+    const drift = detectManifestDrift(manifest('2.0.0', [button]), manifest('2.0.0', [button], { tokens, hashes: { generator: 'a', tokens: 'b', components: {} } }));
+    expect(drift.components).toEqual([]);
+    expect(drift.fields).toEqual(['tokens']);
+  });
+
+  it('ignores the incremental cache hashes', () => {
+    const drift = detectManifestDrift(
+      manifest('2.0.0', [button], { hashes: { generator: 'a', tokens: 'b', components: {} } }),
+      manifest('2.0.0', [button], { hashes: { generator: 'c', tokens: 'b', components: {} } }),
+    );
+    expect(hasDrift(drift)).toBe(false);
+  });
+});
+
+describe('formatManifestDrift', () => {
+  it('prints one line per component followed by its API changes', () => {
+    const drift = detectManifestDrift(manifest('2.0.0', [button]), manifest('2.1.0', [component({ ...button, slots: [] })]));
+    expect(formatManifestDrift(drift, 'component-manifest.json')).toBe(
+      [
+        'component-manifest.json is out of date (design-system-next 2.0.0 on disk, 2.1.0 now):',
+        '  button: changed (slots)',
+        '    - button: slot "default" was removed',
+        '  Other fields: designSystemVersion',
+        'Run "npm run generate-manifest" to update it.',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  manifestFormatVersion,
+  manifestJsonSchema,
+  migrateManifest,
+  normalizeLineEndings,
+  parseManifest,
+} from '../../src/manifest-schema.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+function manifest(overrides: Record<string, unknown> = {}) {
+  return {
+    version: manifestFormatVersion,
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    designSystemVersion: '2.26.14',
+    components: [
+      {
+        name: 'button',
+        pascalName: 'Button',
+        category: 'form',
+        props: [{ name: 'tone', type: 'string', validValues: ['success'] }],
+        emits: [],
+        slots: [{ name: 'default', scoped: false }],
+        types: [],
+        composables: [],
+        subComponents: [],
+      },
+    ],
+    tokens: { colors: [{ name: 'white', shades: { 50: '#FFFFFF' } }], spacing: [], borderRadius: [], maxWidth: [], utilities: [] },
+    stores: [],
+    assets: { images: [], emptyStates: [] },
+    ...overrides,
+  };
+}
+
+describe('parseManifest', () => {
+  it('accepts a current manifest', () => {
+    const result = parseManifest(manifest());
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.migratedFrom).toBeUndefined();
+  });
+
+  it('accepts the bundled manifest, migrating it if needed', () => {
+    const result = parseManifest(JSON.parse(readFileSync(join(root, 'component-manifest.json'), 'utf-8')));
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.manifest.version).toBe(manifestFormatVersion);
+  });
+
+  it('validates recorded diagnostics', () => {
+    const diagnostic = { component: 'select', file: 'select/select.ts', parser: 'props', message: 'Unexpected token' };
+    expect(parseManifest(manifest({ diagnostics: [diagnostic] })).ok).toBe(true);
+    expect(parseManifest(manifest({ diagnostics: [{ ...diagnostic, parser: 'tokens' }] }))).toMatchObject({ ok: false, errors: [expect.stringMatching(/^diagnostics\[0\]\.parser: /)] });
+  });
+
+  it('validates component docs', () => {
+    const docs = { files: ['docs/button.md'], summary: 'Buttons trigger actions.', sections: [{ heading: 'Usage', content: 'Use one primary button.', file: 'docs/button.md' }] };
+    const documented = manifest();
+    documented.components[0] = { ...documented.components[0], docs } as typeof documented.components[0];
+    expect(parseManifest(documented).ok).toBe(true);
+    documented.components[0] = { ...documented.components[0], docs: { ...docs, sections: [{ heading: 'Usage', file: 'docs/button.md' }] } } as typeof documented.components[0];
+    expect(parseManifest(documented)).toMatchObject({ ok: false, errors: [expect.stringMatching(/^components\["button"\]\.docs\.sections\[0\]\.content: /)] });
+  });
+
+  it('validates usage examples', () => {
+    const example = { code: '<spr-button />', file: 'docs/button.md', line: 3, kind: 'docs' };
+    const withExamples = manifest();
+    withExamples.components[0] = { ...withExamples.components[0], examples: [example] } as typeof withExamples.components[0];
+    expect(parseManifest(withExamples).ok).toBe(true);
+    withExamples.components[0] = { ...withExamples.components[0], examples: [{ ...example, kind: 'story' }] } as typeof withExamples.components[0];
+    expect(parseManifest(withExamples)).toMatchObject({ ok: false, errors: [expect.stringMatching(/^components\["button"\]\.examples\[0\]\.kind: /)] });
+  });
+
+  it('validates template dependencies', () => {
+    const dependencies = { tags: ['SprCheckbox'], imports: [{ specifier: '../empty-state/empty-state.vue', component: 'empty-state' }] };
+    const withDependencies = manifest();
+    withDependencies.components[0] = { ...withDependencies.components[0], dependencies } as typeof withDependencies.components[0];
+    expect(parseManifest(withDependencies).ok).toBe(true);
+    withDependencies.components[0] = { ...withDependencies.components[0], dependencies: { ...dependencies, imports: ['../empty-state/empty-state.vue'] } } as typeof withDependencies.components[0];
+    expect(parseManifest(withDependencies)).toMatchObject({ ok: false, errors: [expect.stringMatching(/^components\["button"\]\.dependencies\.imports\[0\]: /)] });
+  });
+
+  it('names the offending component and prop', () => {
+    const broken = manifest();
+    (broken.components as Array<{ props: Array<{ type: unknown }> }>)[0].props[0].type = 5;
+    const result = parseManifest({ ...broken, tokens: undefined });
+    expect(result).toEqual({
+      ok: false,
+      errors: ['components["button"].props["tone"].type: expected string, received number', 'tokens: expected object, received undefined'],
+    });
+  });
+
+  it('rejects manifests from a newer format', () => {
+    const result = parseManifest(manifest({ version: '9.0.0' }));
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors[0]).toContain('newer than this server supports');
+  });
+
+  it('rejects formats it has no migration for', () => {
+    const result = parseManifest(manifest({ version: '0.9.0' }));
+    expect(!result.ok && result.errors[0]).toContain('no migration from format 0.9.0');
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(parseManifest([])).toEqual({ ok: false, errors: ['Manifest must be a JSON object'] });
+  });
+});
+
+describe('migrateManifest', () => {
+  it('upgrades 1.0.0 manifests by normalizing line endings', () => {
+    const old = manifest({ version: '1.0.0' });
+    (old.components as Array<{ props: Array<{ type: string }> }>)[0].props[0].type = '\r\n  string | number';
+    const { manifest: migrated, applied } = migrateManifest(old);
+    expect(migrated.version).toBe('1.1.0');
+    expect(applied.map(m => `${m.from} → ${m.to}`)).toEqual(['1.0.0 → 1.1.0']);
+    expect(parseManifest(old)).toMatchObject({ ok: true, migratedFrom: '1.0.0', manifest: { components: [{ props: [{ type: '\n  string | number' }] }] } });
+  });
+
+  it('treats manifests without a version as 1.0.0', () => {
+    const { version, ...unversioned } = manifest();
+    expect(parseManifest(unversioned)).toMatchObject({ ok: true, migratedFrom: 'unversioned' });
+  });
+});
+
+describe('normalizeLineEndings', () => {
+  it('rewrites strings at any depth and leaves other values alone', () => {
+    expect(normalizeLineEndings({ a: ['x\r\ny'], b: { c: 'p\rq' }, n: 1, t: true })).toEqual({ a: ['x\ny'], b: { c: 'p\nq' }, n: 1, t: true });
+  });
+});
+
+describe('manifestJsonSchema', () => {
+  it('matches the published manifest.schema.json', () => {
+    const published = JSON.parse(readFileSync(join(root, 'manifest.schema.json'), 'utf-8'));
+    expect(published).toEqual(manifestJsonSchema());
+  });
+
+  it('describes numeric color shade keys as strings', () => {
+    const text = JSON.stringify(manifestJsonSchema());
+    expect(text).toContain('"pattern":"^[0-9]+$"');
+    expect(text).not.toContain('"type":"number"}');
+  });
+});
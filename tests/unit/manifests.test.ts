@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import {
+  compareVersions,
+  selectManifestVersion,
+  detectProjectVersion,
+  discoverManifestFiles,
+  createManifestContext,
+  findComponent,
+  componentNotFoundMessage,
+  getEmbeddedSources,
+} from '../../src/manifests.js';
+import { component, manifest } from '../helpers/manifest-fixtures.js';
+
+describe('compareVersions', () => {
+  it('orders by major, minor and patch', () => {
+    expect(compareVersions('2.26.14', '2.26.2')).toBeGreaterThan(0);
+    expect(compareVersions('2.9.0', '2.10.0')).toBeLessThan(0);
+    expect(compareVersions('3.0.0', '2.99.99')).toBeGreaterThan(0);
+    expect(compareVersions('2.26.14', '2.26.14')).toBe(0);
+  });
+
+  it('sorts pre-releases before their release', () => {
+    expect(compareVersions('3.0.0-beta.1', '3.0.0')).toBeLessThan(0);
+  });
+});
+
+describe('selectManifestVersion', () => {
+  const available = ['2.20.0', '2.24.3', '2.26.14', '3.0.0'];
+
+  it('matches exact versions', () => {
+    expect(selectManifestVersion('2.24.3', available)).toBe('2.24.3');
+    expect(selectManifestVersion('2.24.4', available)).toBeNull();
+  });
+
+  it('picks the highest version in a caret range', () => {
+    expect(selectManifestVersion('^2.20.0', available)).toBe('2.26.14');
+    expect(selectManifestVersion('^2.27.0', available)).toBeNull();
+  });
+
+  it('picks the highest version in a tilde range', () => {
+    expect(selectManifestVersion('~2.24.0', available)).toBe('2.24.3');
+  });
+
+  it('supports >= and x-ranges', () => {
+    expect(selectManifestVersion('>=2.25.0', available)).toBe('3.0.0');
+    expect(selectManifestVersion('2.x', available)).toBe('2.26.14');
+    expect(selectManifestVersion('2', available)).toBe('2.26.14');
+  });
+
+  it('returns null for unparseable ranges', () => {
+    expect(selectManifestVersion('latest', available)).toBeNull();
+  });
+});
+
+describe('detectProjectVersion', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'mcp-ds-project-'));
+    // Project with the package installed
+    mkdirSync(join(root, 'installed', 'node_modules', 'design-system-next', 'dist'), { recursive: true });
+    writeFileSync(join(root, 'installed', 'package.json'), JSON.stringify({ dependencies: { 'design-system-next': '^2.20.0' } }));
+    writeFileSync(
+      join(root, 'installed', 'node_modules', 'design-system-next', 'package.json'),
+      JSON.stringify({ name: 'design-system-next', version: '2.24.3', main: 'dist/index.js' }),
+    );
+    writeFileSync(join(root, 'installed', 'node_modules', 'design-system-next', 'dist', 'index.js'), '');
+    // Nested workspace package without its own dependency
+    mkdirSync(join(root, 'installed', 'packages', 'app', 'src'), { recursive: true });
+    writeFileSync(join(root, 'installed', 'packages', 'app', 'package.json'), JSON.stringify({ name: 'app' }));
+    // Project that declares but hasn't installed it
+    mkdirSync(join(root, 'declared'), { recursive: true });
+    writeFileSync(join(root, 'declared', 'package.json'), JSON.stringify({ devDependencies: { 'design-system-next': '~2.26.0' } }));
+    // Package whose entry point is nested deeper than one directory
+    mkdirSync(join(root, 'nested', 'node_modules', 'design-system-next', 'dist', 'lib', 'esm'), { recursive: true });
+    writeFileSync(join(root, 'nested', 'package.json'), JSON.stringify({ dependencies: { 'design-system-next': '^2.20.0' } }));
+    writeFileSync(
+      join(root, 'nested', 'node_modules', 'design-system-next', 'package.json'),
+      JSON.stringify({ name: 'design-system-next', version: '2.25.0', main: 'dist/lib/esm/index.js' }),
+    );
+    writeFileSync(join(root, 'nested', 'node_modules', 'design-system-next', 'dist', 'lib', 'esm', 'index.js'), '');
+    // Project on an internal fork
+    mkdirSync(join(root, 'fork'), { recursive: true });
+    writeFileSync(join(root, 'fork', 'package.json'), JSON.stringify({ dependencies: { '@acme/design-system': '^3.0.0' } }));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports the installed version', () => {
+    expect(detectProjectVersion(join(root, 'installed'))).toMatchObject({ version: '2.24.3', installed: true });
+  });
+
+  it('finds the installed package.json however deep its entry point is', () => {
+    expect(detectProjectVersion(join(root, 'nested'))).toMatchObject({ version: '2.25.0', installed: true });
+  });
+
+  it('walks up to the package.json that declares the dependency', () => {
+    const detected = detectProjectVersion(join(root, 'installed', 'packages', 'app', 'src'));
+    expect(detected).toMatchObject({ version: '2.24.3', packageJsonPath: join(root, 'installed', 'package.json') });
+  });
+
+  it('falls back to the declared range', () => {
+    expect(detectProjectVersion(join(root, 'declared'))).toMatchObject({ version: '~2.26.0', installed: false });
+  });
+
+  it('looks for a configured package name instead', () => {
+    expect(detectProjectVersion(join(root, 'installed'), '@acme/design-system')).toBeNull();
+    expect(detectProjectVersion(join(root, 'fork'), '@acme/design-system')).toMatchObject({ version: '^3.0.0', installed: false });
+  });
+});
+
+describe('discoverManifestFiles', () => {
+  it('lists JSON files in existing directories and skips missing ones', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mcp-ds-manifests-'));
+    writeFileSync(join(dir, '2.26.14.json'), '{}');
+    writeFileSync(join(dir, '2.20.0.json'), '{}');
+    writeFileSync(join(dir, 'README.md'), '');
+    try {
+      expect(discoverManifestFiles([join(dir, 'missing'), dir])).toEqual([join(dir, '2.20.0.json'), join(dir, '2.26.14.json')]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('createManifestContext', () => {
+  const ctx = createManifestContext(
+    manifest('2.26.14', [component({ name: 'modal', category: 'layout' }), component({ name: 'card', category: 'layout' })]),
+    '/tmp/component-manifest.json',
+  );
+
+  it('indexes components by name and category', () => {
+    expect(ctx.componentMap.get('modal')?.pascalName).toBe('Modal');
+    expect(ctx.componentsByCategory.get('layout')?.map(c => c.name)).toEqual(['modal', 'card']);
+    expect(ctx.searchIndex).toHaveLength(2);
+  });
+
+  it('finds components by alias', () => {
+    expect(findComponent(ctx, 'dialog')?.name).toBe('modal');
+    expect(findComponent(ctx, 'nonexistent')).toBeUndefined();
+  });
+
+  it('builds not-found messages with suggestions', () => {
+    expect(componentNotFoundMessage(ctx, 'cart')).toContain('Did you mean: card?');
+  });
+
+  it('uses the aliases it was created with', () => {
+    const custom = createManifestContext(manifest('2.26.14', [component({ name: 'modal' })]), '/tmp/component-manifest.json', { lightbox: ['modal'] });
+    expect(findComponent(custom, 'lightbox')?.name).toBe('modal');
+    expect(findComponent(custom, 'dialog')).toBeUndefined();
+  });
+});
+
+describe('getEmbeddedSources', () => {
+  const base = manifest('2.26.14', []);
+  const sources = { button: { 'button.vue': '<template><button /></template>' } };
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-sources-'));
+    writeFileSync(join(dir, '2.26.14.sources.json.gz'), gzipSync(JSON.stringify({ designSystemVersion: '2.26.14', components: sources })));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns sources embedded in the manifest', () => {
+    const ctx = createManifestContext({ ...base, sources: { components: sources } }, join(dir, 'component-manifest.json'));
+    expect(getEmbeddedSources(ctx)).toEqual(sources);
+  });
+
+  it('reads a gzipped sidecar next to the manifest', () => {
+    const ctx = createManifestContext({ ...base, sources: { sidecar: '2.26.14.sources.json.gz' } }, join(dir, '2.26.14.json'));
+    expect(getEmbeddedSources(ctx)).toEqual(sources);
+  });
+
+  it('only looks for the sidecar in the manifest directory', () => {
+    const ctx = createManifestContext({ ...base, sources: { sidecar: '../elsewhere/2.26.14.sources.json.gz' } }, join(dir, 'nested', '2.26.14.json'));
+    expect(getEmbeddedSources(ctx)).toBeNull();
+  });
+
+  it('returns null without embedded sources', () => {
+    expect(getEmbeddedSources(createManifestContext(base, join(dir, 'component-manifest.json')))).toBeNull();
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import {
+  componentDetailsToMarkdown,
+  componentListToMarkdown,
+  sourceFileToMarkdown,
+  tokensToMarkdown,
+  usageReportToMarkdown,
+  manifestDiffToMarkdown,
+  suggestionsToMarkdown,
+  typeDeclarationsToMarkdown,
+  versionsToMarkdown,
+  diagnosticsToMarkdown,
+  componentDocsToMarkdown,
+  componentDependenciesToMarkdown,
+} from '../../src/markdown.js';
+
+describe('componentDetailsToMarkdown', () => {
+  const details = {
+    name: 'button',
+    pascalName: 'Button',
+    category: 'form',
+    props: [
+      { name: 'tone', type: "'neutral' | 'success'", default: "'neutral'", validValues: ['neutral', 'success'], description: 'Color tone' },
+      { name: 'label', type: 'string', required: true },
+    ],
+    emits: [{ name: 'click', payloadType: 'MouseEvent' }],
+    slots: [{ name: 'default', scoped: false }, { name: 'icon', scoped: true, scopeProps: ['size'] }],
+    types: ['ButtonTone'],
+    usageExample: '<template>\n  <SprButton />\n</template>',
+  };
+  const markdown = componentDetailsToMarkdown(details);
+
+  it('renders props as a table with escaped pipes', () => {
+    expect(markdown).toContain('| Name | Type | Default | Valid values | Required | Description |');
+    expect(markdown).toContain("| `tone` | `'neutral' \\| 'success'` | `'neutral'` | `neutral`, `success` |  | Color tone |");
+    expect(markdown).toContain('| `label` | `string` |  |  | yes |  |');
+  });
+
+  it('renders emits with payload types and slots with scope props', () => {
+    expect(markdown).toContain('- `click` — payload: `MouseEvent`');
+    expect(markdown).toContain('- `icon` — scope: `size`');
+  });
+
+  it('renders the usage example as a fenced vue block', () => {
+    expect(markdown).toContain('```vue\n<template>\n  <SprButton />\n</template>\n```');
+  });
+
+  it('renders real examples with their source ahead of the generated one', () => {
+    const withExamples = componentDetailsToMarkdown({
+      ...details,
+      summary: 'Buttons trigger actions.',
+      examples: [{ code: '<spr-button tone="success">Save</spr-button>', file: 'docs/components/button.md', line: 12, kind: 'docs' }],
+    });
+    expect(withExamples).toContain('Buttons trigger actions.\n\n## Props');
+    expect(withExamples).toContain('## Examples\n\nFrom `docs/components/button.md:12` (docs):\n\n```vue\n<spr-button tone="success">Save</spr-button>\n```\n\n## Generated Example');
+  });
+
+  it('omits sections that were not selected', () => {
+    const partial = componentDetailsToMarkdown({ name: 'button', pascalName: 'Button', category: 'form', emits: [] });
+    expect(partial).toContain('## Emits');
+    expect(partial).not.toContain('## Props');
+    expect(partial).not.toContain('## Usage');
+  });
+});
+
+describe('componentListToMarkdown', () => {
+  it('renders one row per component', () => {
+    const markdown = componentListToMarkdown([
+      { name: 'select', pascalName: 'Select', category: 'form', propCount: 12, slotCount: 1, subComponents: ['select-multiple'] },
+    ]);
+    expect(markdown).toContain('| SprSelect | `select` | form | 12 | 1 | select-multiple |');
+  });
+});
+
+describe('tokensToMarkdown', () => {
+  it('renders colors with a column per shade', () => {
+    const markdown = tokensToMarkdown({
+      colors: [
+        { name: 'white', shades: { 50: '#FFFFFF', 100: '#F1F2F3' } },
+        { name: 'kangkong', shades: { 100: '#E7F5EC' } },
+      ],
+    });
+    expect(markdown).toContain('| Color | 50 | 100 |');
+    expect(markdown).toContain('| white | #FFFFFF | #F1F2F3 |');
+    expect(markdown).toContain('| kangkong |  | #E7F5EC |');
+    expect(markdown).not.toContain('## Spacing');
+  });
+
+  it('renders value and utility tokens', () => {
+    const markdown = tokensToMarkdown({
+      spacing: [{ name: 'size-spacing-xs', value: 'var(--size-200)' }],
+      utilities: [{ name: 'bg-overlay', properties: { backgroundColor: '#4C5857', opacity: '0.6' } }],
+    });
+    expect(markdown).toContain('| `size-spacing-xs` | var(--size-200) |');
+    expect(markdown).toContain('| `bg-overlay` | backgroundColor: #4C5857; opacity: 0.6 |');
+  });
+});
+
+describe('sourceFileToMarkdown', () => {
+  const file = { path: 'button.ts', language: 'typescript', bytes: 20, totalLines: 1, startLine: 1, endLine: 1, content: 'export const x = 1;\n' };
+
+  it('fences the file with its language, size and line count', () => {
+    expect(sourceFileToMarkdown(file)).toBe('## button.ts\n\n_typescript · 20 bytes · 1 lines_\n\n```ts\nexport const x = 1;\n```');
+  });
+
+  it('shows the line range when trimmed', () => {
+    expect(sourceFileToMarkdown({ ...file, totalLines: 40, startLine: 5, endLine: 9 })).toContain('lines 5–9 of 40');
+  });
+
+  it('uses a longer fence when the file contains one', () => {
+    expect(sourceFileToMarkdown({ ...file, path: 'README.md', content: '```js\nx\n```' })).toContain('````md\n```js');
+  });
+});
+
+describe('usageReportToMarkdown', () => {
+  it('summarises valid usage in one line', () => {
+    expect(usageReportToMarkdown({ valid: true, problems: [] })).toBe('No problems found.');
+  });
+
+  it('renders problems as a table', () => {
+    const markdown = usageReportToMarkdown({
+      valid: false,
+      problems: [{ kind: 'invalid-value', severity: 'error', message: 'Invalid value "x"', component: 'SprButton', line: 2, column: 3 }],
+    });
+    expect(markdown).toContain('| 2 | 3 | error | invalid-value | SprButton | Invalid value "x" |');
+  });
+});
+
+describe('manifestDiffToMarkdown', () => {
+  it('groups breaking and non-breaking changes', () => {
+    const markdown = manifestDiffToMarkdown({
+      from: '2.0.0',
+      to: '2.1.0',
+      summary: { breaking: 1, nonBreaking: 1, componentsAdded: 0, componentsRemoved: 0, componentsChanged: 1 },
+      changes: [
+        { component: 'button', target: 'prop', name: 'tone', kind: 'removed', breaking: true, message: 'button: prop "tone" was removed' },
+        { component: 'button', target: 'emit', name: 'focus', kind: 'added', breaking: false, message: 'button: emit "focus" was added' },
+      ],
+    });
+    expect(markdown).toContain('# design-system-next 2.0.0 → 2.1.0');
+    expect(markdown.indexOf('## Breaking changes')).toBeLessThan(markdown.indexOf('## Non-breaking changes'));
+    expect(markdown).toContain('| button | prop | `tone` | removed | button: prop "tone" was removed |');
+  });
+});
+
+describe('suggestionsToMarkdown', () => {
+  it('numbers suggestions and lists their reasons', () => {
+    const markdown = suggestionsToMarkdown([
+      { name: 'select', pascalName: 'Select', category: 'form', subComponent: 'select-multiple', score: 14, reasons: ['Intent "several" suggests select › select-multiple'] },
+    ]);
+    expect(markdown).toBe('1. **SprSelect** (`select-multiple`) · form · score 14\n   - Intent "several" suggests select › select-multiple');
+  });
+
+  it('points to search_components when nothing fits', () => {
+    expect(suggestionsToMarkdown([])).toContain('search_components');
+  });
+});
+
+describe('typeDeclarationsToMarkdown', () => {
+  it('fences the declaration file under its file name', () => {
+    const markdown = typeDeclarationsToMarkdown({
+      designSystemVersion: '2.26.14',
+      fileName: 'sprout-components.d.ts',
+      components: ['SprButton'],
+      content: "declare module 'vue' {}\n",
+    });
+    expect(markdown).toContain('## sprout-components.d.ts');
+    expect(markdown).toContain("```ts\ndeclare module 'vue' {}\n```");
+  });
+});
+
+describe('versionsToMarkdown', () => {
+  it('warns when the bundled manifest does not match the installed package', () => {
+    const markdown = versionsToMarkdown({
+      defaultVersion: '2.26.14',
+      installedVersion: '2.27.0',
+      versionMismatch: { manifestVersion: '2.26.14', installedVersion: '2.27.0', message: 'component-manifest.json is stale.' },
+      projectVersion: null,
+      versions: [{ version: '2.26.14', componentCount: 42, generatedAt: '2026-01-01', default: true, installed: false, manifest: 'component-manifest.json' }],
+    });
+    expect(markdown).toContain('> **Warning:** component-manifest.json is stale.');
+    expect(markdown).toContain('| 2.26.14 | 42 | 2026-01-01 | yes |  | `component-manifest.json` |');
+  });
+});
+
+describe('diagnosticsToMarkdown', () => {
+  it('lists parser failures with the sub-component they belong to', () => {
+    const markdown = diagnosticsToMarkdown({
+      designSystemVersion: '2.26.14',
+      recorded: true,
+      versionMismatch: null,
+      diagnostics: [{ component: 'select', subComponent: 'select-multiple', file: 'select/select-multiple/select-multiple.ts', parser: 'props', message: 'Unexpected token' }],
+    });
+    expect(markdown).toContain('| select › select-multiple | `select/select-multiple/select-multiple.ts` | props | Unexpected token |');
+  });
+
+  it('distinguishes a clean manifest from one that predates diagnostics', () => {
+    const base = { designSystemVersion: '2.26.14', versionMismatch: null, diagnostics: [] };
+    expect(diagnosticsToMarkdown({ ...base, recorded: true })).toBe('No parser failures in the design-system-next v2.26.14 manifest.');
+    expect(diagnosticsToMarkdown({ ...base, recorded: false })).toContain('predates diagnostics');
+  });
+});
+
+describe('componentDocsToMarkdown', () => {
+  const base = { name: 'button', pascalName: 'Button', designSystemVersion: '2.26.14', recorded: true, files: [], sections: [] };
+
+  it('renders the summary and sections, naming the page of each when there are several', () => {
+    const markdown = componentDocsToMarkdown({
+      ...base,
+      files: ['docs/components/button.md', 'src/components/button/README.md'],
+      summary: 'Buttons trigger actions.',
+      sections: [
+        { heading: 'When to use', content: 'For primary actions.', file: 'docs/components/button.md' },
+        { heading: 'Accessibility', content: 'Label icon-only buttons.', file: 'src/components/button/README.md' },
+      ],
+    });
+    expect(markdown).toBe(
+      [
+        '# SprButton',
+        'Buttons trigger actions.',
+        '## When to use',
+        'For primary actions.',
+        '_From `docs/components/button.md`_',
+        '## Accessibility',
+        'Label icon-only buttons.',
+        '_From `src/components/button/README.md`_',
+        '_Source: `docs/components/button.md`, `src/components/button/README.md`_',
+      ].join('\n\n'),
+    );
+  });
+
+  it('distinguishes a component without docs from a manifest that predates them', () => {
+    expect(componentDocsToMarkdown(base)).toContain('No docs pages for `button` in design-system-next v2.26.14');
+    expect(componentDocsToMarkdown({ ...base, recorded: false })).toContain('predates docs harvesting');
+  });
+});
+
+describe('componentDependenciesToMarkdown', () => {
+  const base = { name: 'table', pascalName: 'Table', designSystemVersion: '2.26.14', recorded: true, uses: [], usedBy: [], unresolved: [] };
+
+  it('renders both directions and the tags it could not resolve', () => {
+    const markdown = componentDependenciesToMarkdown({
+      ...base,
+      uses: [{ component: 'checkbox', via: ['SprCheckbox'], from: ['table', 'table-actions'] }],
+      unresolved: ['SprMystery'],
+    });
+    expect(markdown).toBe(
+      [
+        '# SprTable',
+        '## Uses',
+        '| Component | Via | In |\n| --- | --- | --- |\n| checkbox | `SprCheckbox` | table, table-actions |',
+        '## Used By',
+        '_Not rendered by any other Sprout component._',
+        "_Also renders `SprMystery`, which isn't a component in this manifest._",
+      ].join('\n\n'),
+    );
+  });
+
+  it('says when the manifest predates dependency tracking', () => {
+    expect(componentDependenciesToMarkdown({ ...base, recorded: false })).toContain('predates dependency tracking');
+  });
+});
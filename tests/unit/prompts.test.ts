@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { getPrompt, promptDefinitions } from '../../src/prompts.js';
+import type { Manifest } from '../../src/types.js';
+
+const manifest: Manifest = {
+  version: '1.0.0',
+  generatedAt: '2026-01-01T00:00:00.000Z',
+  designSystemVersion: '2.26.14',
+  components: [
+    {
+      name: 'input',
+      pascalName: 'Input',
+      category: 'form',
+      props: [{ name: 'size', type: 'string', validValues: ['small', 'large'], required: true }],
+      emits: [{ name: 'update:modelValue', payloadType: 'string' }],
+      slots: [{ name: 'icon', scoped: false }],
+      types: [],
+      composables: [],
+      subComponents: [],
+    },
+    {
+      name: 'table',
+      pascalName: 'Table',
+      category: 'data',
+      props: [{ name: 'headers', type: 'Header[]' }],
+      emits: [],
+      slots: [],
+      types: [],
+      composables: [],
+      subComponents: [],
+    },
+  ],
+  tokens: {
+    colors: [{ name: 'kangkong', shades: { 500: '#17AD49' } }],
+    spacing: [{ name: 'size-spacing-xs', value: 'var(--size-200)' }],
+    borderRadius: [],
+    maxWidth: [],
+    utilities: [],
+  },
+  stores: [],
+  assets: { images: [], emptyStates: [] },
+};
+
+describe('promptDefinitions', () => {
+  it('declares the workflow prompts', () => {
+    expect(promptDefinitions.map(p => p.name)).toEqual(['build_form', 'convert_html', 'review_tokens']);
+  });
+});
+
+describe('getPrompt', () => {
+  it('returns null for unknown prompts', () => {
+    expect(getPrompt('nonexistent', {}, manifest)).toBeNull();
+  });
+
+  it('throws when a required argument is missing', () => {
+    expect(() => getPrompt('build_form', {}, manifest)).toThrow('description');
+  });
+
+  it('embeds form components only in build_form', () => {
+    const prompt = getPrompt('build_form', { description: 'a login form' }, manifest)!;
+    const text = prompt.messages[0].content.type === 'text' ? prompt.messages[0].content.text : '';
+    expect(text).toContain('a login form');
+    expect(text).toContain('### SprInput (input)');
+    expect(text).toContain("size: string, required, one of 'small' | 'large'");
+    expect(text).toContain('size-spacing-xs');
+    expect(text).not.toContain('SprTable');
+  });
+
+  it('embeds the component catalog and tokens in convert_html', () => {
+    const prompt = getPrompt('convert_html', { html: '<button>Save</button>' }, manifest)!;
+    const text = prompt.messages[0].content.type === 'text' ? prompt.messages[0].content.text : '';
+    expect(text).toContain('<button>Save</button>');
+    expect(text).toContain('- SprTable (data): headers');
+    expect(text).toContain('kangkong: 500=#17AD49');
+  });
+
+  it('embeds tokens and fences the source in review_tokens', () => {
+    const prompt = getPrompt('review_tokens', { source: '.a { color: #17AD49; }', fileName: 'app.scss' }, manifest)!;
+    const text = prompt.messages[0].content.type === 'text' ? prompt.messages[0].content.text : '';
+    expect(text).toContain('```scss\n.a { color: #17AD49; }\n```');
+    expect(text).toContain('`app.scss`');
+    expect(text).toContain('kangkong: 500=#17AD49');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, editDistance, buildSearchIndex, searchComponents } from '../../src/search.js';
+import { component } from '../helpers/manifest-fixtures.js';
+
+const index = buildSearchIndex([
+  component({ name: 'date-picker', props: [{ name: 'minMaxYear', type: 'Object' }] }),
+  component({ name: 'time-picker' }),
+  component({ name: 'checkbox', props: [{ name: 'disabled', type: 'boolean' }] }),
+  component({
+    name: 'calendar',
+    category: 'data',
+    props: [{ name: 'initialDate', type: 'string', description: 'The first date shown' }],
+    slots: [{ name: 'footer', scoped: false }],
+  }),
+  component({
+    name: 'table',
+    category: 'data',
+    subComponents: [{ name: 'table-pagination', pascalName: 'TablePagination', props: [], emits: [], slots: [] }],
+  }),
+]);
+
+describe('tokenize', () => {
+  it('splits kebab-case, camelCase and whitespace', () => {
+    expect(tokenize('date-picker')).toEqual(['date', 'picker']);
+    expect(tokenize('minMaxYear')).toEqual(['min', 'max', 'year']);
+    expect(tokenize('  Date  Picker ')).toEqual(['date', 'picker']);
+  });
+
+  it('returns empty array for punctuation only', () => {
+    expect(tokenize('--')).toEqual([]);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('chekbox', 'checkbox', 2)).toBe(1);
+    expect(editDistance('table', 'cable', 2)).toBe(1);
+  });
+
+  it('counts adjacent transpositions as one edit', () => {
+    expect(editDistance('tabel', 'table', 2)).toBe(1);
+  });
+
+  it('stops early once the limit is exceeded', () => {
+    expect(editDistance('abc', 'xyzxyz', 1)).toBe(2);
+  });
+});
+
+describe('searchComponents', () => {
+  it('matches multi-word queries', () => {
+    const results = searchComponents(index, 'date picker');
+    expect(results[0].name).toBe('date-picker');
+    expect(results[0].matches.every(m => m.field === 'name')).toBe(true);
+  });
+
+  it('matches compacted names', () => {
+    const results = searchComponents(index, 'datepicker');
+    expect(results[0].name).toBe('date-picker');
+  });
+
+  it('tolerates typos', () => {
+    const results = searchComponents(index, 'chekbox');
+    expect(results[0]).toMatchObject({ name: 'checkbox', matches: [{ field: 'name', matchType: 'fuzzy' }] });
+  });
+
+  it('ranks name matches above prop and description matches', () => {
+    const results = searchComponents(index, 'date');
+    expect(results.map(r => r.name)).toEqual(['date-picker', 'calendar']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[1].matches[0]).toMatchObject({ field: 'prop', value: 'initialDate' });
+  });
+
+  it('reports sub-component and slot matches', () => {
+    expect(searchComponents(index, 'pagination')[0].matches[0]).toMatchObject({ field: 'sub-component', value: 'table-pagination' });
+    expect(searchComponents(index, 'footer')[0].matches[0]).toMatchObject({ field: 'slot', value: 'footer' });
+  });
+
+  it('ranks components matching every word above partial matches', () => {
+    const results = searchComponents(index, 'time picker');
+    expect(results[0].name).toBe('time-picker');
+    expect(results[1].name).toBe('date-picker');
+  });
+
+  it('matches aliases when an alias table is given', () => {
+    const aliased = buildSearchIndex([component({ name: 'checkbox' })], { tickbox: ['checkbox'] });
+    expect(searchComponents(aliased, 'tickbox')[0].matches[0]).toMatchObject({ field: 'alias', value: 'tickbox' });
+  });
+
+  it('returns empty array for no matches', () => {
+    expect(searchComponents(index, 'zzzznonexistent')).toEqual([]);
+    expect(searchComponents(index, '')).toEqual([]);
+  });
+});
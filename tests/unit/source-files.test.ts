@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  resolveContainedPath,
+  globToRegExp,
+  listSourceFiles,
+  readSourceFiles,
+  collectSourceFiles,
+  listEmbeddedSourceFiles,
+  readEmbeddedSourceFiles,
+} from '../../src/source-files.js';
+
+describe('resolveContainedPath', () => {
+  it('resolves names inside the root', () => {
+    expect(resolveContainedPath('/ds/components', 'button')).toBe('/ds/components/button');
+    expect(resolveContainedPath('/ds/components', 'select/select-multiple')).toBe('/ds/components/select/select-multiple');
+  });
+
+  it('rejects paths that escape the root', () => {
+    expect(resolveContainedPath('/ds/components', '../stores')).toBeNull();
+    expect(resolveContainedPath('/ds/components', 'button/../../stores')).toBeNull();
+    expect(resolveContainedPath('/ds/components', '/etc')).toBeNull();
+    expect(resolveContainedPath('/ds/components', '..')).toBeNull();
+    expect(resolveContainedPath('/ds/components', '')).toBeNull();
+  });
+
+  it('allows names that only start with dots', () => {
+    expect(resolveContainedPath('/ds/components', '..button')).toBe('/ds/components/..button');
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches * within a path segment', () => {
+    expect(globToRegExp('*.vue').test('select.vue')).toBe(true);
+    expect(globToRegExp('*.vue').test('multi/select.vue')).toBe(false);
+  });
+
+  it('matches ** across directories', () => {
+    expect(globToRegExp('select-multiple/**').test('select-multiple/a/b.ts')).toBe(true);
+    expect(globToRegExp('**/*.ts').test('select.ts')).toBe(true);
+    expect(globToRegExp('**/*.ts').test('a/b/select.ts')).toBe(true);
+  });
+
+  it('supports ? and brace alternatives', () => {
+    expect(globToRegExp('use-?.ts').test('use-x.ts')).toBe(true);
+    expect(globToRegExp('*.{ts,vue}').test('select.vue')).toBe(true);
+    expect(globToRegExp('*.{ts,vue}').test('select.css')).toBe(false);
+  });
+
+  it('escapes regex characters', () => {
+    expect(globToRegExp('a+b.ts').test('a+b.ts')).toBe(true);
+    expect(globToRegExp('a.ts').test('abts')).toBe(false);
+  });
+});
+
+describe('readSourceFiles', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-source-'));
+    mkdirSync(join(dir, 'select', 'select-multiple'), { recursive: true });
+    writeFileSync(join(dir, 'select', 'select.ts'), 'line 1\nline 2\nline 3\nline 4');
+    writeFileSync(join(dir, 'select', 'select.vue'), '<template>é</template>');
+    writeFileSync(join(dir, 'select', 'select.css'), '.x {}');
+    writeFileSync(join(dir, 'select', 'select-multiple', 'select-multiple.vue'), '<template />');
+    writeFileSync(join(dir, 'secret.ts'), 'outside');
+    symlinkSync(join(dir, 'secret.ts'), join(dir, 'select', 'linked.ts'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists .ts and .vue files recursively and skips symlinks', () => {
+    expect(listSourceFiles(join(dir, 'select'))).toEqual(['select-multiple/select-multiple.vue', 'select.ts', 'select.vue']);
+  });
+
+  it('returns language and byte size for each file', () => {
+    const files = readSourceFiles(join(dir, 'select'));
+    expect(files.find(f => f.path === 'select.vue')).toMatchObject({ language: 'vue', bytes: 23, totalLines: 1 });
+    expect(files.find(f => f.path === 'select.ts')).toMatchObject({ language: 'typescript', startLine: 1, endLine: 4 });
+  });
+
+  it('filters by glob, matching bare patterns at any depth', () => {
+    expect(readSourceFiles(join(dir, 'select'), { files: ['*.vue'] }).map(f => f.path)).toEqual(['select-multiple/select-multiple.vue', 'select.vue']);
+    expect(readSourceFiles(join(dir, 'select'), { files: ['select-multiple/**'] }).map(f => f.path)).toEqual(['select-multiple/select-multiple.vue']);
+  });
+
+  it('trims content to the line range', () => {
+    const [file] = readSourceFiles(join(dir, 'select'), { files: ['select.ts'], startLine: 2, endLine: 3 });
+    expect(file).toMatchObject({ startLine: 2, endLine: 3, totalLines: 4, content: 'line 2\nline 3' });
+  });
+
+  it('clamps the end of the range to the file length', () => {
+    const [file] = readSourceFiles(join(dir, 'select'), { files: ['select.ts'], startLine: 3, endLine: 100 });
+    expect(file).toMatchObject({ endLine: 4, content: 'line 3\nline 4' });
+  });
+
+  it('skips files that end before the start line', () => {
+    expect(readSourceFiles(join(dir, 'select'), { startLine: 2 }).map(f => f.path)).toEqual(['select.ts']);
+  });
+
+  it('rejects a start line past the end of every selected file', () => {
+    expect(() => readSourceFiles(join(dir, 'select'), { startLine: 5 })).toThrow(
+      'startLine 5 is past the end of every selected file (the longest, select.ts, has 4 lines).',
+    );
+  });
+
+  it('collects file contents for embedding', () => {
+    expect(collectSourceFiles(join(dir, 'select'))).toEqual({
+      'select-multiple/select-multiple.vue': '<template />',
+      'select.ts': 'line 1\nline 2\nline 3\nline 4',
+      'select.vue': '<template>é</template>',
+    });
+  });
+});
+
+describe('readEmbeddedSourceFiles', () => {
+  const files = {
+    'select.vue': '<template>é</template>',
+    'select.ts': 'line 1\nline 2\nline 3\nline 4',
+    'select-multiple/select-multiple.vue': '<template />',
+    'README.md': '# Select',
+  };
+
+  it('lists embedded .ts and .vue files in sorted order', () => {
+    expect(listEmbeddedSourceFiles(files)).toEqual(['select-multiple/select-multiple.vue', 'select.ts', 'select.vue']);
+  });
+
+  it('applies globs and line ranges like readSourceFiles', () => {
+    expect(readEmbeddedSourceFiles(files, { files: ['*.vue'] }).map(f => f.path)).toEqual(['select-multiple/select-multiple.vue', 'select.vue']);
+    const [file] = readEmbeddedSourceFiles(files, { files: ['select.ts'], startLine: 2, endLine: 3 });
+    expect(file).toMatchObject({ language: 'typescript', startLine: 2, endLine: 3, totalLines: 4, content: 'line 2\nline 3' });
+  });
+});
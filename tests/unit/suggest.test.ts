@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { suggestComponents, intentKeywords } from '../../src/suggest.js';
+import { component } from '../helpers/manifest-fixtures.js';
+import type { ComponentManifest } from '../../src/types.js';
+
+const components: ComponentManifest[] = [
+  component({
+    name: 'select',
+    props: [{ name: 'options', type: 'Array' }, { name: 'placeholder', type: 'string' }],
+    subComponents: [
+      { name: 'select-multiple', pascalName: 'SelectMultiple', props: [], emits: [], slots: [] },
+      { name: 'select-ladderized', pascalName: 'SelectLadderized', props: [], emits: [], slots: [] },
+    ],
+  }),
+  component({ name: 'snackbar', category: 'feedback' }),
+  component({
+    name: 'modal',
+    category: 'layout',
+    props: [{ name: 'staticBackdrop', type: 'boolean', description: 'Prevent closing when the backdrop is clicked' }],
+    slots: [{ name: 'footer', scoped: false }],
+  }),
+  component({ name: 'lozenge', category: 'data', props: [{ name: 'tone', type: 'string', validValues: ['success', 'danger'] }] }),
+  component({ name: 'switch' }),
+];
+
+describe('suggestComponents', () => {
+  it('suggests select with its multiple sub-component for picking several items', () => {
+    const [top] = suggestComponents('let the user pick several tags from a long list', components);
+    expect(top).toMatchObject({ name: 'select', subComponent: 'select-multiple' });
+    expect(top.reasons).toContain('Intent "several" suggests select › select-multiple');
+  });
+
+  it('ranks snackbar first for a non-blocking message', () => {
+    const suggestions = suggestComponents('show a non-blocking success message', components);
+    expect(suggestions[0].name).toBe('snackbar');
+    expect(suggestions[0].reasons).toContain('Intent "non blocking" suggests snackbar');
+  });
+
+  it('uses valid values as evidence', () => {
+    const lozenge = suggestComponents('success', components).find(s => s.name === 'lozenge');
+    expect(lozenge?.reasons).toContain('Prop "tone" accepts "success"');
+  });
+
+  it('uses slots and prop descriptions as evidence', () => {
+    const [modal] = suggestComponents('dialog with a footer that ignores backdrop clicks', components);
+    expect(modal.name).toBe('modal');
+    expect(modal.reasons).toEqual(expect.arrayContaining([
+      'Intent "dialog" suggests modal',
+      'Slot "footer"',
+      'Prop "staticBackdrop" description mentions "backdrop"',
+    ]));
+  });
+
+  it('matches component names and aliases', () => {
+    expect(suggestComponents('a toggle', components)[0].name).toBe('switch');
+    expect(suggestComponents('modal', components)[0].reasons).toContain('Named "modal"');
+    expect(suggestComponents('a flipper', components, 5, { flipper: ['switch'] })[0].name).toBe('switch');
+  });
+
+  it('stems plural and -ing forms', () => {
+    expect(suggestComponents('choosing between options', components)[0].name).toBe('select');
+  });
+
+  it('respects the limit and returns nothing for empty intents', () => {
+    expect(suggestComponents('pick several options in a dialog', components, 1)).toHaveLength(1);
+    expect(suggestComponents('let the user', components)).toEqual([]);
+  });
+
+  it('keys intent keywords by kebab-case component names', () => {
+    for (const [key, phrases] of Object.entries(intentKeywords)) {
+      expect(key).toMatch(/^[a-z]+(-[a-z]+)*$/);
+      expect(phrases.length).toBeGreaterThan(0);
+    }
+  });
+});
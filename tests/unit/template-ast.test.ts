@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { parseTemplate, ELEMENT, type TemplateNode } from '../../src/template-ast.js';
+
+function firstElement(node: TemplateNode | undefined): TemplateNode | undefined {
+  return node?.children?.find(child => child.type === ELEMENT);
+}
+
+describe('parseTemplate', () => {
+  it('parses the template block of an SFC', () => {
+    const parsed = parseTemplate('<script setup lang="ts">const a = 1;</script>\n<template>\n  <SprButton />\n</template>');
+    expect(parsed.descriptor.scriptSetup).not.toBeNull();
+    expect(firstElement(parsed.ast)).toMatchObject({ tag: 'SprButton', loc: { start: { line: 3, column: 3 } } });
+    expect(parsed.toOriginal({ line: 3, column: 3 })).toEqual({ line: 3, column: 3 });
+  });
+
+  it('wraps bare snippets and maps first-line columns back to the original source', () => {
+    const parsed = parseTemplate('<SprButton />\n  <SprBadge />');
+    const [button, badge] = (parsed.ast?.children ?? []).filter(child => child.type === ELEMENT);
+    expect(parsed.toOriginal(button.loc.start)).toMatchObject({ line: 1, column: 1 });
+    expect(parsed.toOriginal(badge.loc.start)).toMatchObject({ line: 2, column: 3 });
+  });
+
+  it('returns no AST for an SFC without a template', () => {
+    expect(parseTemplate('<script setup lang="ts">const a = 1;</script>').ast).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { listTools, parseToolCall, toolErrorResult, argumentError, toolDefinitions } from '../../src/tool-schemas.js';
+
+describe('listTools', () => {
+  const tools = listTools();
+
+  it('lists every defined tool', () => {
+    expect(tools.map(t => t.name)).toEqual(Object.keys(toolDefinitions));
+  });
+
+  it('generates object input schemas with required fields and descriptions', () => {
+    const getComponent = tools.find(t => t.name === 'get_component')!;
+    expect(getComponent.inputSchema.type).toBe('object');
+    expect(getComponent.inputSchema.required).toEqual(['name']);
+    expect(getComponent.inputSchema).not.toHaveProperty('$schema');
+    const properties = getComponent.inputSchema.properties as Record<string, { description?: string; items?: { enum?: string[] } }>;
+    expect(properties.name.description).toContain('component name');
+    expect(properties.fields.items?.enum).toContain('props');
+  });
+
+  it('adds version and format to manifest-backed tools', () => {
+    const properties = tools.find(t => t.name === 'get_tokens')!.inputSchema.properties!;
+    expect(Object.keys(properties)).toEqual(['type', 'version', 'format']);
+  });
+
+  it('adds only format to version tools', () => {
+    const properties = tools.find(t => t.name === 'list_versions')!.inputSchema.properties!;
+    expect(Object.keys(properties)).toEqual(['format']);
+  });
+});
+
+describe('parseToolCall', () => {
+  it('returns the parsed arguments for valid calls', () => {
+    const call = parseToolCall('get_component', { name: 'button', fields: ['props'] });
+    expect(call).toEqual({ ok: true, name: 'get_component', args: { name: 'button', fields: ['props'] } });
+  });
+
+  it('treats missing arguments as an empty object', () => {
+    expect(parseToolCall('list_components', undefined)).toMatchObject({ ok: true, args: {} });
+  });
+
+  it('reports missing required fields', () => {
+    const call = parseToolCall('get_component', {});
+    expect(call.ok).toBe(false);
+    if (call.ok) return;
+    expect(call.error.code).toBe('invalid_arguments');
+    expect(call.error.fields.map(f => f.field)).toEqual(['name']);
+  });
+
+  it('reports wrongly typed fields with their paths', () => {
+    const call = parseToolCall('get_component', { name: 42, fields: ['props', 'template'] });
+    if (call.ok) throw new Error('expected a validation error');
+    expect(call.error.fields.map(f => f.field)).toEqual(['name', 'fields.1']);
+    expect(call.error.fields[1].message).toBe('Invalid field "template". Use one of: summary, props, emits, slots, types, composables, examples, usageExample');
+  });
+
+  it('lists accepted values for enums', () => {
+    const call = parseToolCall('get_tokens', { type: 'shadows' });
+    if (call.ok) throw new Error('expected a validation error');
+    expect(call.error.message).toContain('Invalid token type "shadows"');
+  });
+
+  it('applies cross-field rules', () => {
+    const byProp = parseToolCall('search_by_prop', {});
+    if (byProp.ok) throw new Error('expected a validation error');
+    expect(byProp.error.fields[0]).toEqual({ field: 'propName', message: 'At least one of propName or propType is required.' });
+
+    const source = parseToolCall('get_component_source', { name: 'button', startLine: 10, endLine: 2 });
+    if (source.ok) throw new Error('expected a validation error');
+    expect(source.error.fields[0].field).toBe('endLine');
+  });
+
+  it('reports unknown arguments with the accepted ones', () => {
+    const call = parseToolCall('get_component', { name: 'table', feilds: ['emits'] });
+    if (call.ok) throw new Error('expected a validation error');
+    expect(call.error.fields).toEqual([
+      { field: 'feilds', message: 'Unknown argument "feilds". Accepted arguments: name, fields, includeSubComponents, compact, version, format' },
+    ]);
+  });
+
+  it('rejects unknown tools', () => {
+    expect(parseToolCall('get_everything', {})).toEqual({
+      ok: false,
+      error: { code: 'unknown_tool', message: 'Unknown tool: get_everything', fields: [] },
+    });
+  });
+});
+
+describe('toolErrorResult', () => {
+  it('wraps the error as JSON in an isError result', () => {
+    const result = toolErrorResult({ code: 'invalid_arguments', message: 'Invalid', fields: [{ field: 'name', message: 'Required' }] });
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      error: { code: 'invalid_arguments', message: 'Invalid', fields: [{ field: 'name', message: 'Required' }] },
+    });
+  });
+});
+
+describe('argumentError', () => {
+  it('names the offending argument when there is one', () => {
+    expect(argumentError('component_not_found', 'Component "x" not found.', 'name')).toEqual({
+      code: 'component_not_found',
+      message: 'Component "x" not found.',
+      fields: [{ field: 'name', message: 'Component "x" not found.' }],
+    });
+    expect(argumentError('source_unavailable', 'Not installed.').fields).toEqual([]);
+  });
+});
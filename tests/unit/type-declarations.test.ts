@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { generateTypeDeclarations, toTypeScriptType, eventHandlerName } from '../../src/type-declarations.js';
+import type { ComponentManifest } from '../../src/types.js';
+
+const select: ComponentManifest = {
+  name: 'select',
+  pascalName: 'Select',
+  category: 'form',
+  props: [
+    { name: 'id', type: 'string', required: true },
+    { name: 'options', type: 'MenuListType[]', default: '[]' },
+    { name: 'placement', type: 'string', default: "'bottom'", validValues: ['top', 'bottom'], description: 'Where the popper opens' },
+    { name: 'triggers', type: 'string', default: "() => ['click']", validValues: ['click', 'hover'] },
+    { name: 'modelValue', type: 'string | number | Record<string, unknown' },
+  ],
+  emits: [
+    { name: 'update:modelValue', payloadType: 'string' },
+    { name: 'get-selected-option', payloadType: 'MenuListType' },
+    { name: 'close' },
+  ],
+  slots: [
+    { name: 'default', scoped: false },
+    { name: 'option', scoped: true, scopeProps: ['item', 'index'] },
+    { name: '[slotName]', scoped: false },
+  ],
+  types: [
+    { name: 'MenuListType', kind: 'type', definition: 'export type MenuListType = {\n  text: string;\n  value: string;\n};' },
+    { name: 'SelectPropTypes', kind: 'type', definition: 'export type SelectPropTypes = ExtractPropTypes<typeof selectPropTypes>;' },
+  ],
+  composables: [],
+  subComponents: [{ name: 'select-multiple', pascalName: 'SelectMultiple', props: [{ name: 'modelValue', type: 'Array' }], emits: [], slots: [] }],
+};
+
+describe('toTypeScriptType', () => {
+  it('maps Vue runtime constructors', () => {
+    expect(toTypeScriptType('String')).toBe('string');
+    expect(toTypeScriptType('[String, Number]')).toBe('string | number');
+    expect(toTypeScriptType('Object')).toBe('Record<string, unknown>');
+  });
+
+  it('keeps type expressions that only use built-in types', () => {
+    expect(toTypeScriptType('{ text: string; value: string }[]')).toBe('{ text: string; value: string }[]');
+    expect(toTypeScriptType('MouseEvent | KeyboardEvent')).toBe('MouseEvent | KeyboardEvent');
+  });
+
+  it('falls back to unknown for unresolved names, typeof and truncated types', () => {
+    expect(toTypeScriptType('MenuListType[]')).toBe('unknown');
+    expect(toTypeScriptType('(typeof TONES)[number]')).toBe('unknown');
+    expect(toTypeScriptType('Record<string, unknown')).toBe('unknown');
+    expect(toTypeScriptType(undefined)).toBe('unknown');
+  });
+});
+
+describe('eventHandlerName', () => {
+  it('derives the listener prop Vue uses', () => {
+    expect(eventHandlerName('click')).toBe('onClick');
+    expect(eventHandlerName('update:modelValue')).toBe('onUpdate:modelValue');
+    expect(eventHandlerName('get-selected-option')).toBe('onGetSelectedOption');
+  });
+});
+
+describe('generateTypeDeclarations', () => {
+  const { content, components, fileName } = generateTypeDeclarations('2.26.14', [select]);
+
+  it('augments GlobalComponents for components and sub-components', () => {
+    expect(fileName).toBe('sprout-components.d.ts');
+    expect(components).toEqual(['SprSelect', 'SprSelectMultiple']);
+    expect(content).toContain("declare module 'vue' {");
+    expect(content).toContain('    SprSelect: new () => {\n      $props: SprSelectProps & AllowedComponentProps & ComponentCustomProps & VNodeProps;\n      $slots: SprSelectSlots;');
+    expect(content).toContain('SprSelectMultiple: new () => {');
+  });
+
+  it('types props with required flags and valid values as literal unions', () => {
+    expect(content).toContain('  id: string;');
+    expect(content).toContain("  /**\n   * Where the popper opens\n   * @default 'bottom'\n   */\n  placement?: 'top' | 'bottom';");
+    expect(content).toContain("  triggers?: Array<'click' | 'hover'>;");
+    expect(content).toContain('  modelValue?: unknown;');
+    expect(content).toContain('  modelValue?: unknown[];');
+  });
+
+  it('copies manifest types that props and emits reference', () => {
+    expect(content).toContain('  options?: MenuListType[];');
+    expect(content).toContain('export type MenuListType = {\n  text: string;\n  value: string;\n};');
+    expect(content).not.toContain('SelectPropTypes =');
+  });
+
+  it('types emits as on* handlers', () => {
+    expect(content).toContain("  'onUpdate:modelValue'?: (value: string) => void;");
+    expect(content).toContain('  onGetSelectedOption?: (value: MenuListType) => void;');
+    expect(content).toContain('  onClose?: () => void;');
+  });
+
+  it('types slots with their scope props', () => {
+    expect(content).toContain('  default?: () => VNode[];');
+    expect(content).toContain('  option?: (props: { item: unknown; index: unknown; }) => VNode[];');
+    expect(content).toContain('  [name: string]: ((props: any) => VNode[]) | undefined;');
+  });
+
+  it('skips directories that are not components', () => {
+    const { components: names } = generateTypeDeclarations('2.26.14', [{ ...select, name: '.tldr', pascalName: '.tldr', subComponents: [] }]);
+    expect(names).toEqual([]);
+  });
+});
+
+describe('generate-manifest types', () => {
+  const root = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+  let dir: string;
+
+  const run = (...args: string[]) =>
+    spawnSync('npx', ['tsx', 'src/generate-manifest.ts', 'types', ...args], { cwd: root, encoding: 'utf-8', timeout: 60_000 });
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-ds-types-'));
+    const manifest = JSON.parse(readFileSync(join(root, 'component-manifest.json'), 'utf-8'));
+    writeFileSync(join(dir, 'fork.json'), JSON.stringify({ ...manifest, designSystemVersion: '9.9.9' }));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the manifest given as a positional argument', () => {
+    const result = run(join(dir, 'fork.json'));
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('(design-system-next 9.9.9)');
+  }, 60_000);
+
+  it('fails when the given manifest does not exist', () => {
+    const result = run(join(dir, 'missing.json'));
+    expect(result.status).toBe(2);
+    expect(result.stderr).toContain('does not exist');
+  }, 60_000);
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { extractUsages, findExampleFiles, collectUsageExamples } from '../../src/usage-examples.js';
+
+describe('extractUsages', () => {
+  it('finds kebab-case and PascalCase elements in an SFC, nested ones included', () => {
+    const usages = extractUsages(
+      ['<template>', '  <spr-card title="Team">', '    <SprButton tone="success" @click="save">Save</SprButton>', '  </spr-card>', '</template>'].join('\n'),
+      'App.vue',
+    );
+    expect(usages).toEqual([
+      { tag: 'SprCard', code: '<spr-card title="Team">\n  <SprButton tone="success" @click="save">Save</SprButton>\n</spr-card>', line: 2, attributes: 1 },
+      { tag: 'SprButton', code: '<SprButton tone="success" @click="save">Save</SprButton>', line: 3, attributes: 2 },
+    ]);
+  });
+
+  it('reads fenced vue blocks and live demo markup in markdown, but not script blocks or other fences', () => {
+    const page = [
+      '# Button',
+      '',
+      '<script setup>',
+      "const html = '<spr-button>Script</spr-button>';",
+      '</script>',
+      '',
+      '<spr-button tone="success">Live</spr-button>',
+      '',
+      '```vue',
+      '<spr-button',
+      '  tone="danger"',
+      '>',
+      '  Delete',
+      '</spr-button>',
+      '```',
+      '',
+      '```ts',
+      "const html = '<spr-button>Code</spr-button>';",
+      '```',
+    ].join('\n');
+    expect(extractUsages(page, 'button.md').map(u => [u.line, u.code])).toEqual([
+      [10, '<spr-button\n  tone="danger"\n>\n  Delete\n</spr-button>'],
+      [7, '<spr-button tone="success">Live</spr-button>'],
+    ]);
+  });
+
+  it('reads template strings in test specs', () => {
+    const spec = [
+      "// it's a spec",
+      "mount({ template: '<spr-badge text=\"New\" />' });",
+      'mount({',
+      '  template: `',
+      '    <SprSelect v-model="value">',
+      '      <span>Option</span>',
+      '    </SprSelect>',
+      '  `,',
+      '});',
+    ].join('\n');
+    expect(extractUsages(spec, 'select.spec.ts').map(u => [u.tag, u.line, u.code])).toEqual([
+      ['SprBadge', 2, '<spr-badge text="New" />'],
+      ['SprSelect', 5, '<SprSelect v-model="value">\n  <span>Option</span>\n</SprSelect>'],
+    ]);
+  });
+});
+
+describe('findExampleFiles / collectUsageExamples', () => {
+  let root: string;
+  const components = [
+    { name: 'button', pascalName: 'Button', subComponents: [] },
+    { name: 'select', pascalName: 'Select', subComponents: [{ name: 'select-multiple', pascalName: 'SelectMultiple', props: [], emits: [], slots: [] }] },
+  ];
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'mcp-ds-examples-'));
+    for (const dir of ['docs/components', 'playground/src', 'src/components/select', 'node_modules/other']) {
+      mkdirSync(join(root, dir), { recursive: true });
+    }
+    writeFileSync(join(root, 'docs', 'components', 'button.md'), '```vue\n<spr-button tone="success">Save</spr-button>\n```\n\n<spr-button tone="success">Save</spr-button>\n');
+    writeFileSync(join(root, 'playground', 'src', 'App.vue'), '<template>\n  <spr-select-multiple v-model="tags" />\n  <SprButton size="large" variant="secondary">Go</SprButton>\n</template>\n');
+    writeFileSync(join(root, 'src', 'components', 'select', 'select.vue'), '<template><spr-button /></template>\n');
+    writeFileSync(join(root, 'src', 'components', 'select', 'select.spec.ts'), "mount({ template: '<spr-select v-model=\"value\" />' });\n");
+    writeFileSync(join(root, 'node_modules', 'other', 'demo.spec.ts'), "mount({ template: '<spr-button />' });\n");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('searches docs, demo directories and specs, but not component sources or node_modules', () => {
+    expect(findExampleFiles(root, join(root, 'docs'))).toEqual([
+      { path: join(root, 'docs', 'components', 'button.md'), kind: 'docs' },
+      { path: join(root, 'playground', 'src', 'App.vue'), kind: 'demo' },
+      { path: join(root, 'src', 'components', 'select', 'select.spec.ts'), kind: 'spec' },
+    ]);
+  });
+
+  it('ranks docs first, drops duplicates and counts sub-component usages for the parent after its own', () => {
+    const examples = collectUsageExamples(root, findExampleFiles(root, join(root, 'docs')), components);
+    expect(examples).toEqual(
+      new Map([
+        [
+          'button',
+          [
+            { code: '<spr-button tone="success">Save</spr-button>', file: 'docs/components/button.md', line: 2, kind: 'docs' },
+            { code: '<SprButton size="large" variant="secondary">Go</SprButton>', file: 'playground/src/App.vue', line: 3, kind: 'demo' },
+          ],
+        ],
+        [
+          'select',
+          [
+            { code: '<spr-select v-model="value" />', file: 'src/components/select/select.spec.ts', line: 1, kind: 'spec' },
+            { code: '<spr-select-multiple v-model="tags" />', file: 'playground/src/App.vue', line: 2, kind: 'demo' },
+          ],
+        ],
+      ]),
+    );
+  });
+
+  it('keeps at most `limit` examples per component', () => {
+    const examples = collectUsageExamples(root, findExampleFiles(root, join(root, 'docs')), components, 1);
+    expect(examples.get('button')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { validateUsage } from '../../src/usage-validator.js';
+import type { ComponentManifest } from '../../src/types.js';
+
+const components: ComponentManifest[] = [
+  {
+    name: 'button',
+    pascalName: 'Button',
+    category: 'form',
+    props: [
+      { name: 'tone', type: 'string', validValues: ['neutral', 'success', 'danger'] },
+      { name: 'disabled', type: 'boolean' },
+    ],
+    emits: [{ name: 'click', payloadType: 'MouseEvent' }],
+    slots: [{ name: 'default', scoped: false }],
+    types: [],
+    composables: [],
+    subComponents: [],
+  },
+  {
+    name: 'select',
+    pascalName: 'Select',
+    category: 'form',
+    props: [
+      { name: 'id', type: 'string', required: true },
+      { name: 'modelValue', type: 'string' },
+      { name: 'options', type: 'Array', required: true },
+    ],
+    emits: [{ name: 'update:modelValue' }, { name: 'search-string', payloadType: 'string' }],
+    slots: [{ name: 'helperMessage', scoped: false }],
+    types: [],
+    composables: [],
+    subComponents: [
+      {
+        name: 'select-multiple',
+        pascalName: 'SelectMultiple',
+        props: [{ name: 'label', type: 'string', required: true }],
+        emits: [],
+        slots: [],
+      },
+    ],
+  },
+];
+
+describe('validateUsage', () => {
+  it('returns no problems for valid usage', () => {
+    const problems = validateUsage('<SprButton tone="success" disabled @click="save">Save</SprButton>', components);
+    expect(problems).toEqual([]);
+  });
+
+  it('flags unknown props with line and column', () => {
+    const problems = validateUsage('<SprButton\n  colour="red" />', components);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({ kind: 'unknown-prop', component: 'SprButton', line: 2, column: 3 });
+  });
+
+  it('reports columns relative to the original snippet', () => {
+    const problems = validateUsage('<SprButton colour="red" />', components);
+    expect(problems[0]).toMatchObject({ line: 1, column: 12 });
+  });
+
+  it('ignores pass-through attributes', () => {
+    const problems = validateUsage('<SprButton class="mt-2" data-testid="save" aria-label="Save" />', components);
+    expect(problems).toEqual([]);
+  });
+
+  it('flags static values outside validValues', () => {
+    const problems = validateUsage('<SprButton tone="sucess" />', components);
+    expect(problems[0]).toMatchObject({ kind: 'invalid-value' });
+    expect(problems[0].message).toContain('neutral, success, danger');
+  });
+
+  it('flags bound string literals outside validValues', () => {
+    const problems = validateUsage(`<SprButton :tone="'warning'" />`, components);
+    expect(problems[0]).toMatchObject({ kind: 'invalid-value' });
+  });
+
+  it('does not check bound expressions', () => {
+    const problems = validateUsage('<SprButton :tone="currentTone" />', components);
+    expect(problems).toEqual([]);
+  });
+
+  it('flags missing required props', () => {
+    const problems = validateUsage('<SprSelect v-model="value" />', components);
+    const missing = problems.filter(p => p.kind === 'missing-required-prop').map(p => p.message);
+    expect(missing).toHaveLength(2);
+    expect(missing[0]).toContain('"id"');
+    expect(missing[1]).toContain('"options"');
+  });
+
+  it('skips required checks when props are spread with v-bind', () => {
+    const problems = validateUsage('<SprSelect v-bind="selectProps" />', components);
+    expect(problems).toEqual([]);
+  });
+
+  it('accepts kebab-case tags and prop names', () => {
+    const problems = validateUsage('<spr-select id="s" :options="opts" model-value="a" />', components);
+    expect(problems).toEqual([]);
+  });
+
+  it('flags unknown slot names', () => {
+    const source = '<SprSelect id="s" :options="opts">\n  <template #footer>x</template>\n</SprSelect>';
+    const problems = validateUsage(source, components);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({ kind: 'unknown-slot', line: 2, column: 13 });
+  });
+
+  it('flags listeners for events that are not emitted', () => {
+    const problems = validateUsage('<SprSelect id="s" :options="opts" @search-string="f" @searchString="f" @blur="f" />', components);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({ kind: 'unknown-event' });
+    expect(problems[0].message).toContain('"blur"');
+  });
+
+  it('resolves sub-components', () => {
+    const problems = validateUsage('<SprSelectMultiple />', components);
+    expect(problems[0]).toMatchObject({ kind: 'missing-required-prop', component: 'SprSelectMultiple' });
+  });
+
+  it('flags unknown Spr components', () => {
+    const problems = validateUsage('<SprDialog />', components);
+    expect(problems[0]).toMatchObject({ kind: 'unknown-component', component: 'SprDialog' });
+  });
+
+  it('validates the template block of a full SFC', () => {
+    const source = '<script setup>\nconst x = 1;\n</script>\n\n<template>\n  <SprButton tone="blue" />\n</template>';
+    const problems = validateUsage(source, components);
+    expect(problems[0]).toMatchObject({ kind: 'invalid-value', line: 6, column: 14 });
+  });
+
+  it('reports template parse errors', () => {
+    const problems = validateUsage('<SprButton tone="success">', components);
+    expect(problems.some(p => p.kind === 'parse-error')).toBe(true);
+  });
+});
@@ -1,7 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { toPascalCase, getComponentCategory, generateUsageExample } from '../../src/utils.js';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  toPascalCase,
+  getComponentCategory,
+  generateUsageExample,
+  normalizeComponentName,
+  resolveComponentName,
+  suggestComponentNames,
+} from '../../src/utils.js';
+import { readComponentConfig } from '../../src/component-config.js';
 import type { PropDefinition, SlotDefinition } from '../../src/types.js';
 
+const { categories } = readComponentConfig(join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'component-config.json'));
+
 describe('toPascalCase', () => {
   it('converts simple kebab-case to PascalCase', () => {
     expect(toPascalCase('button')).toBe('Button');
@@ -26,59 +38,140 @@ describe('toPascalCase', () => {
 
 describe('getComponentCategory', () => {
   it('returns "form" for button', () => {
-    expect(getComponentCategory('button')).toBe('form');
+    expect(getComponentCategory('button', categories)).toBe('form');
   });
 
   it('returns "form" for input', () => {
-    expect(getComponentCategory('input')).toBe('form');
+    expect(getComponentCategory('input', categories)).toBe('form');
   });
 
   it('returns "form" for date-picker', () => {
-    expect(getComponentCategory('date-picker')).toBe('form');
+    expect(getComponentCategory('date-picker', categories)).toBe('form');
   });
 
   it('returns "data" for table', () => {
-    expect(getComponentCategory('table')).toBe('data');
+    expect(getComponentCategory('table', categories)).toBe('data');
   });
 
   it('returns "data" for avatar', () => {
-    expect(getComponentCategory('avatar')).toBe('data');
+    expect(getComponentCategory('avatar', categories)).toBe('data');
   });
 
   it('returns "layout" for modal', () => {
-    expect(getComponentCategory('modal')).toBe('layout');
+    expect(getComponentCategory('modal', categories)).toBe('layout');
   });
 
   it('returns "layout" for tabs', () => {
-    expect(getComponentCategory('tabs')).toBe('layout');
+    expect(getComponentCategory('tabs', categories)).toBe('layout');
   });
 
   it('returns "feedback" for snackbar', () => {
-    expect(getComponentCategory('snackbar')).toBe('feedback');
+    expect(getComponentCategory('snackbar', categories)).toBe('feedback');
   });
 
   it('returns "feedback" for tooltip', () => {
-    expect(getComponentCategory('tooltip')).toBe('feedback');
+    expect(getComponentCategory('tooltip', categories)).toBe('feedback');
   });
 
   it('returns "navigation" for dropdown', () => {
-    expect(getComponentCategory('dropdown')).toBe('navigation');
+    expect(getComponentCategory('dropdown', categories)).toBe('navigation');
   });
 
   it('returns "filter" for attribute-filter', () => {
-    expect(getComponentCategory('attribute-filter')).toBe('filter');
+    expect(getComponentCategory('attribute-filter', categories)).toBe('filter');
   });
 
   it('returns "utility" for icon', () => {
-    expect(getComponentCategory('icon')).toBe('utility');
+    expect(getComponentCategory('icon', categories)).toBe('utility');
   });
 
   it('returns "other" for unknown component', () => {
-    expect(getComponentCategory('unknown-component')).toBe('other');
+    expect(getComponentCategory('unknown-component', categories)).toBe('other');
   });
 
   it('returns "other" for empty string', () => {
-    expect(getComponentCategory('')).toBe('other');
+    expect(getComponentCategory('', categories)).toBe('other');
+  });
+});
+
+describe('normalizeComponentName', () => {
+  it('lowercases simple names', () => {
+    expect(normalizeComponentName('Button')).toBe('button');
+  });
+
+  it('strips the Spr prefix and converts PascalCase to kebab-case', () => {
+    expect(normalizeComponentName('SprDatePicker')).toBe('date-picker');
+    expect(normalizeComponentName('spr-date-picker')).toBe('date-picker');
+  });
+
+  it('accepts tag syntax and spaces', () => {
+    expect(normalizeComponentName('<SprButton />')).toBe('button');
+    expect(normalizeComponentName('date picker')).toBe('date-picker');
+  });
+
+  it('does not strip "spr" from the start of a word', () => {
+    expect(normalizeComponentName('sprinkle')).toBe('sprinkle');
+  });
+});
+
+describe('resolveComponentName', () => {
+  const known = ['modal', 'snackbar', 'switch', 'chips', 'lozenge', 'date-picker'];
+
+  it('returns known names directly', () => {
+    expect(resolveComponentName('DatePicker', known)).toBe('date-picker');
+  });
+
+  it('resolves aliases', () => {
+    expect(resolveComponentName('dialog', known)).toBe('modal');
+    expect(resolveComponentName('toast', known)).toBe('snackbar');
+    expect(resolveComponentName('Toggle', known)).toBe('switch');
+    expect(resolveComponentName('tag', known)).toBe('chips');
+  });
+
+  it('resolves plural aliases', () => {
+    expect(resolveComponentName('tags', known)).toBe('chips');
+  });
+
+  it('skips alias targets that are not known', () => {
+    expect(resolveComponentName('tag', ['lozenge'])).toBe('lozenge');
+  });
+
+  it('accepts a custom alias table', () => {
+    expect(resolveComponentName('dlg', known, { dlg: ['modal'] })).toBe('modal');
+  });
+
+  it('returns null for unknown names', () => {
+    expect(resolveComponentName('breadcrumb', known)).toBeNull();
+  });
+});
+
+describe('suggestComponentNames', () => {
+  const known = ['button', 'icon', 'chips', 'lozenge', 'tabs', 'table'];
+
+  it('suggests names within a few edits', () => {
+    expect(suggestComponentNames('buton', known)[0]).toBe('button');
+  });
+
+  it('puts alias targets first', () => {
+    expect(suggestComponentNames('tags', known)).toEqual(['chips', 'lozenge', 'tabs']);
+  });
+
+  it('respects the limit', () => {
+    expect(suggestComponentNames('tags', known, 1)).toEqual(['chips']);
+  });
+
+  it('returns empty array when nothing is close', () => {
+    expect(suggestComponentNames('breadcrumb', known)).toEqual([]);
+  });
+
+  it('ignores substring matches of very short inputs', () => {
+    expect(suggestComponentNames('x', [...known, 'checkbox', 'textarea'])).toEqual([]);
+    expect(suggestComponentNames('tab', known)).toEqual(['tabs', 'table']);
+  });
+
+  it('suggests long names despite a typo', () => {
+    expect(suggestComponentNames('date-pikcer', [...known, 'date-picker', 'time-picker'])[0]).toBe('date-picker');
+    expect(suggestComponentNames('select-multipel', [...known, 'select', 'select-multiple'])[0]).toBe('select-multiple');
   });
 });
 